@@ -0,0 +1,52 @@
+/* global console */
+import { auditLog } from "@/voltagent/services/auditLog";
+import { getRequestIdentity } from "@/voltagent/services/identity";
+
+/**
+ * Tool audit log, newest first. Filters: `from`, `to` (ISO timestamps), `agent`,
+ * `tool`, `user`, `conversation`, plus `limit` (max 1000) and `offset`.
+ * Admins see every user's entries; other callers only their own.
+ */
+export async function GET(req: Request) {
+  const { userId, isAdmin } = getRequestIdentity(req);
+  if (!isAdmin && !userId) {
+    return new Response(JSON.stringify({ error: "Unauthorized" }), {
+      status: 401,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+  try {
+    const params = new URL(req.url).searchParams;
+    const param = (name: string) => params.get(name) || undefined;
+    const timestamp = (name: string) => {
+      const value = param(name);
+      return value && !Number.isNaN(Date.parse(value)) ? new Date(value).toISOString() : undefined;
+    };
+    if ((param("from") && !timestamp("from")) || (param("to") && !timestamp("to"))) {
+      return new Response(JSON.stringify({ error: "from and to must be valid timestamps" }), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const entries = await auditLog.query({
+      from: timestamp("from"),
+      to: timestamp("to"),
+      agentName: param("agent"),
+      toolName: param("tool"),
+      userId: isAdmin ? param("user") : userId,
+      conversationId: param("conversation"),
+      limit: param("limit") ? Number(param("limit")) || undefined : undefined,
+      offset: param("offset") ? Number(param("offset")) || undefined : undefined,
+    });
+    return new Response(JSON.stringify({ entries, count: entries.length }), {
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    console.error("Audit route error:", error);
+    return new Response(JSON.stringify({ error: "Internal server error" }), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+}
@@ -0,0 +1,49 @@
+/* global console */
+import { toolApprovalService } from "@/voltagent/services/toolApproval";
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+
+/**
+ * Pending approval requests and recent decisions of one conversation (arguments redacted)
+ */
+export async function GET(req: Request) {
+  const conversationId = new URL(req.url).searchParams.get("conversationId");
+  if (!conversationId) {
+    return json({ error: "conversationId is required" }, 400);
+  }
+  return json(toolApprovalService.getConversationState(conversationId));
+}
+
+/**
+ * Approve or reject a paused tool call: `{ requestId, token, approved, reason? }`.
+ * The token is only sent over the chat stream of the conversation that made the call.
+ */
+export async function POST(req: Request) {
+  try {
+    const { requestId, token, approved, reason } = await req.json();
+    if (typeof requestId !== "string" || typeof token !== "string" || typeof approved !== "boolean") {
+      return json({ error: "requestId (string), token (string) and approved (boolean) are required" }, 400);
+    }
+
+    const result = toolApprovalService.decideAsUser(
+      requestId,
+      token,
+      approved,
+      typeof reason === "string" && reason ? reason : undefined,
+    );
+    if (result.status === "forbidden") {
+      return json({ error: "Only the user of the conversation can decide on this call" }, 403);
+    }
+    if (result.status === "not_found") {
+      return json({ error: "Approval request not found or already decided" }, 404);
+    }
+    return json(result.decision);
+  } catch (error) {
+    console.error("Approval route error:", error);
+    return json({ error: "Internal server error" }, 500);
+  }
+}
@@ -1,48 +1,146 @@
-import { supervisorAgent, subAgents } from "@/voltagent/agents";
+/* global console */
+import { createAgents } from "@/voltagent/agents";
+import { contextService } from "@/voltagent/services/context";
+import { createUserId, getRequestUser, userCookieHeader } from "@/voltagent/services/identity";
+import { toolApprovalService } from "@/voltagent/services/toolApproval";
+import { usageLedger } from "@/voltagent/services/usageLedger";
 import { mergeIntoDataStream } from "@voltagent/vercel-ui";
+import type { BaseMessage } from "@voltagent/core";
 import { createDataStreamResponse } from "ai";
 
+/**
+ * Shape of a chat message as sent by `useChat` on the client
+ */
+type ChatRequestMessage = {
+  role: string;
+  content: string;
+};
+
+/**
+ * Convert client chat messages into the message list accepted by the agents
+ */
+const toAgentMessages = (messages: ChatRequestMessage[]): BaseMessage[] =>
+  messages
+    .filter((message) => message.role === "user" || message.role === "assistant" || message.role === "system")
+    .map((message) => ({
+      role: message.role as BaseMessage["role"],
+      content: message.content,
+    }));
+
+/**
+ * Pass a stream through unchanged and run `onDone` once it ends, fails or is cancelled
+ */
+async function* untilDone<T>(stream: AsyncIterable<T>, onDone: () => void): AsyncGenerator<T> {
+  try {
+    yield* stream;
+  } finally {
+    onDone();
+  }
+}
+
+/**
+ * Agents are built once per server process, after MCP tools have loaded
+ */
+let agentsReady: ReturnType<typeof createAgents> | undefined;
+const getAgents = () => (agentsReady ??= createAgents());
+
 export async function POST(req: Request) {
   try {
-    const { messages, agentName: requestedAgentName } = await req.json();
+    const {
+      messages,
+      agentName: requestedAgentName,
+      conversationId: requestedConversationId,
+    } = await req.json();
+
+    if (!Array.isArray(messages) || messages.length === 0) {
+      return new Response(JSON.stringify({ error: "messages must be a non-empty array" }), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
 
     const lastMessage = messages[messages.length - 1];
 
     const agentToUseName = requestedAgentName || 'supervisor';
+    // The user comes from the signed user cookie, never from the request body; new clients get a new user
+    const knownUserId = getRequestUser(req);
+    const userId = knownUserId ?? createUserId();
+    // A conversation persisted for another (or an unknown) user is never restored; the request starts a fresh one instead
+    const referencedConversationId = typeof requestedConversationId === "string" && requestedConversationId
+      ? requestedConversationId
+      : undefined;
+    const continuesConversation = referencedConversationId !== undefined
+      && await contextService.canAccessSession(referencedConversationId, userId);
+    const conversationId: string = continuesConversation && referencedConversationId
+      ? referencedConversationId
+      : `conv-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`;
 
-    let selectedAgentInstance;
-
-    // Dynamically import and get the agent instance
-    if (agentToUseName === 'supervisor') {
-      selectedAgentInstance = supervisorAgent; // supervisorAgent is directly imported
-    } else if (subAgents && typeof (subAgents as any)[agentToUseName] === 'function') {
-      // If it's a sub-agent and it's a function that returns a promise, await it
-      selectedAgentInstance = await (subAgents as any)[agentToUseName]();
-    } else {
-      throw new Error(`Agent '${agentToUseName}' not found or not correctly configured.`);
+    // Users whose usage budget is spent get no new runs until the period resets or the budget is raised
+    const budget = await usageLedger.getBudgetStatus(userId).catch((error) => {
+      console.error("Usage budget check failed:", error);
+      return undefined;
+    });
+    if (budget?.exceeded) {
+      return new Response(JSON.stringify({ error: "Usage budget exceeded", ...budget }), {
+        status: 402,
+        headers: { "Content-Type": "application/json" },
+      });
     }
 
+    const { agents } = await getAgents();
+    const selectedAgentInstance = agents[agentToUseName as keyof typeof agents];
+
     if (!selectedAgentInstance || typeof selectedAgentInstance.streamText !== 'function') {
-        throw new Error(`Agent '${agentToUseName}' not found or does not support streaming text.`);
+        throw new Error(`Agent '${agentToUseName}' not found or not correctly configured.`);
     }
 
-    return createDataStreamResponse({
-      async execute(dataStream) {
-        try {
-          const result = await selectedAgentInstance.streamText(lastMessage.content);
-          mergeIntoDataStream(dataStream, result.fullStream!); // Fixed syntax: removed 'n'
-        } catch (error) {
-          console.error("Stream processing error:", error);
-          dataStream.writeMessageAnnotation({
-            type: "error",
-            value: {
-              error: error instanceof Error ? error.message : "Unknown error",
-            },
+    // Each request gets its own context scope so concurrent chats never share state
+    return contextService.run(async () => {
+      // Pick up context persisted by earlier turns (possibly served by another process)
+      await contextService.restoreSession(conversationId, userId);
+      contextService.initializeSession(userId, conversationId, {
+        conversationId,
+        currentAgent: agentToUseName,
+      });
+
+      // When the client references a conversation, the agent's memory already holds the
+      // earlier turns, so only the newest message is sent. Without a reference we fall back
+      // to the full client-side history so the turn is still answered in context.
+      const agentInput: string | BaseMessage[] = continuesConversation
+        ? lastMessage.content
+        : toAgentMessages(messages);
+
+      return createDataStreamResponse({
+        async execute(dataStream) {
+          // Sensitive tool calls wait for a decision posted to /api/chat/approval
+          // The token travels only over this stream, so only this client can decide
+          const stopApprovals = toolApprovalService.subscribe(conversationId, (request, token) => {
+            dataStream.writeMessageAnnotation({
+              type: "approval-request",
+              value: JSON.parse(JSON.stringify({ ...request, token })),
+            });
           });
-        }
-      },
-      onError: (error) =>
-        `VoltAgent stream error: ${error instanceof Error ? error.message : String(error)}`,
+          try {
+            const result = await selectedAgentInstance.streamText(agentInput, {
+              userId,
+              conversationId,
+            });
+            mergeIntoDataStream(dataStream, untilDone(result.fullStream!, stopApprovals)); // Fixed syntax: removed 'n'
+          } catch (error) {
+            stopApprovals();
+            console.error("Stream processing error:", error);
+            dataStream.writeMessageAnnotation({
+              type: "error",
+              value: {
+                error: error instanceof Error ? error.message : "Unknown error",
+              },
+            });
+          }
+        },
+        onError: (error) =>
+          `VoltAgent stream error: ${error instanceof Error ? error.message : String(error)}`,
+        headers: knownUserId ? undefined : { "Set-Cookie": userCookieHeader(userId) },
+      });
     });
   } catch (error) {
     console.error("API route error:", error);
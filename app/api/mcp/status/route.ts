@@ -0,0 +1,25 @@
+/* global console */
+import { mcpToolsService } from "@/voltagent/services/mcp";
+
+/**
+ * MCP status: tool statistics plus per-server state, tool count, last error and uptime
+ */
+export async function GET() {
+  try {
+    // Starts health checks too, so the per-server state reflects live probes
+    await mcpToolsService.start();
+    return new Response(JSON.stringify({
+      ...mcpToolsService.getStats(),
+      initialized: mcpToolsService.isInitialized(),
+      timestamp: new Date().toISOString(),
+    }), {
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    console.error("MCP status route error:", error);
+    return new Response(JSON.stringify({ error: "Internal server error" }), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+}
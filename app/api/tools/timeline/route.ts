@@ -0,0 +1,40 @@
+/* global console */
+import { getRequestIdentity } from "@/voltagent/services/identity";
+import { toolTimelineService } from "@/voltagent/services/toolTimeline";
+
+/**
+ * Tool call timelines: `?operationId=` for one operation (with its sub-agent calls unless
+ * `subAgents=false`), `?conversationId=` for every operation of a conversation, or the
+ * ids of recent operations when neither is given.
+ * Admins see every user's calls; other callers only their own.
+ */
+export async function GET(req: Request) {
+  const identity = getRequestIdentity(req);
+  if (!identity.isAdmin && !identity.userId) {
+    return new Response(JSON.stringify({ error: "Unauthorized" }), {
+      status: 401,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+  try {
+    const params = new URL(req.url).searchParams;
+    const operationId = params.get("operationId");
+    const conversationId = params.get("conversationId");
+    const userId = identity.isAdmin ? undefined : identity.userId;
+
+    const body = operationId
+      ? toolTimelineService.getTimeline(operationId, { includeSubAgents: params.get("subAgents") !== "false", userId })
+      : conversationId
+        ? { conversationId, timelines: toolTimelineService.getConversationTimelines(conversationId, userId) }
+        : { operations: toolTimelineService.getRecentOperations(Number(params.get("limit")) || undefined, userId) };
+    return new Response(JSON.stringify(body), {
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    console.error("Tool timeline route error:", error);
+    return new Response(JSON.stringify({ error: "Internal server error" }), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+}
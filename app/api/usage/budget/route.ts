@@ -0,0 +1,78 @@
+/* global console */
+import { isAdminRequest } from "@/voltagent/services/identity";
+import { usageLedger, type BudgetPeriod } from "@/voltagent/services/usageLedger";
+
+const PERIODS: BudgetPeriod[] = ["day", "month", "total"];
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+
+// Budgets are managed by admins only (`Authorization: Bearer <ADMIN_API_TOKEN>`)
+const unauthorized = () => json({ error: "Admin token required" }, 401);
+
+/**
+ * Budget of a user with the spend of its current period: `?user=`
+ */
+export async function GET(req: Request) {
+  if (!isAdminRequest(req)) {
+    return unauthorized();
+  }
+  try {
+    const userId = new URL(req.url).searchParams.get("user");
+    if (!userId) {
+      return json({ error: "user is required" }, 400);
+    }
+    return json({ userId, ...(await usageLedger.getBudgetStatus(userId)) });
+  } catch (error) {
+    console.error("Usage budget route error:", error);
+    return json({ error: "Internal server error" }, 500);
+  }
+}
+
+/**
+ * Set a user's budget: `{ userId, limitUsd, period? }` where period is day, month (default) or total.
+ * Requests of the user are refused once the period's spend reaches the limit.
+ */
+export async function POST(req: Request) {
+  if (!isAdminRequest(req)) {
+    return unauthorized();
+  }
+  try {
+    const { userId, limitUsd, period = "month" } = await req.json();
+    if (typeof userId !== "string" || !userId || typeof limitUsd !== "number" || !Number.isFinite(limitUsd) || limitUsd < 0) {
+      return json({ error: "userId (string) and limitUsd (non-negative number) are required" }, 400);
+    }
+    if (!PERIODS.includes(period)) {
+      return json({ error: `period must be one of ${PERIODS.join(", ")}` }, 400);
+    }
+    return json(await usageLedger.setBudget(userId, limitUsd, period));
+  } catch (error) {
+    console.error("Usage budget route error:", error);
+    return json({ error: "Internal server error" }, 500);
+  }
+}
+
+/**
+ * Remove a user's budget: `?user=`
+ */
+export async function DELETE(req: Request) {
+  if (!isAdminRequest(req)) {
+    return unauthorized();
+  }
+  try {
+    const userId = new URL(req.url).searchParams.get("user");
+    if (!userId) {
+      return json({ error: "user is required" }, 400);
+    }
+    if (!(await usageLedger.removeBudget(userId))) {
+      return json({ error: "No budget set for this user" }, 404);
+    }
+    return json({ userId, removed: true });
+  } catch (error) {
+    console.error("Usage budget route error:", error);
+    return json({ error: "Internal server error" }, 500);
+  }
+}
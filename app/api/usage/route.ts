@@ -0,0 +1,48 @@
+/* global console */
+import { getRequestIdentity } from "@/voltagent/services/identity";
+import { usageLedger, type UsageGroupBy } from "@/voltagent/services/usageLedger";
+
+const GROUP_BY: UsageGroupBy[] = ["day", "user", "conversation", "agent", "model"];
+const DAY = /^\d{4}-\d{2}-\d{2}$/;
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+
+/**
+ * Token and cost totals. Filters: `user`, `conversation`, `agent`, `from`, `to`
+ * (`YYYY-MM-DD`, inclusive), plus `groupBy` (day, user, conversation, agent or model).
+ * Admins see every user; other callers only their own usage.
+ */
+export async function GET(req: Request) {
+  const { userId, isAdmin } = getRequestIdentity(req);
+  if (!isAdmin && !userId) {
+    return json({ error: "Unauthorized" }, 401);
+  }
+  try {
+    const params = new URL(req.url).searchParams;
+    const param = (name: string) => params.get(name) || undefined;
+    const groupBy = param("groupBy");
+    if (groupBy && !GROUP_BY.includes(groupBy as UsageGroupBy)) {
+      return json({ error: `groupBy must be one of ${GROUP_BY.join(", ")}` }, 400);
+    }
+    if ([param("from"), param("to")].some((day) => day && !DAY.test(day))) {
+      return json({ error: "from and to must be YYYY-MM-DD dates" }, 400);
+    }
+
+    const totals = await usageLedger.query({
+      userId: isAdmin ? param("user") : userId,
+      conversationId: param("conversation"),
+      agentName: param("agent"),
+      from: param("from"),
+      to: param("to"),
+      groupBy: groupBy as UsageGroupBy | undefined,
+    });
+    return json(groupBy ? { groupBy, totals } : totals[0]);
+  } catch (error) {
+    console.error("Usage route error:", error);
+    return json({ error: "Internal server error" }, 500);
+  }
+}
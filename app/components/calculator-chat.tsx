@@ -4,6 +4,8 @@ import { useChat } from "@ai-sdk/react";
 import type { StreamPart } from "@voltagent/core";
 import type { UIMessage } from "ai";
 import { useEffect, useRef } from "react";
+import { useChatSession } from "./use-chat-session";
+import { ToolApprovalRequests } from "./tool-approval";
 
 interface ToolCallAnnotation {
   type: "tool-call";
@@ -37,8 +39,10 @@ interface ErrorAnnotation {
 type MessageAnnotation = ToolCallAnnotation | ToolResultAnnotation | ErrorAnnotation;
 
 export function CalculatorChat() {
+  const { conversationId } = useChatSession();
   const { messages, input, handleInputChange, handleSubmit, isLoading } = useChat({
     api: "/api/chat",
+    id: conversationId,
     initialMessages: [
       {
         id: "welcome",
@@ -47,6 +51,9 @@ export function CalculatorChat() {
           "Hello! I'm your AI-powered calculator. You can write your calculations in natural language. For example: '5 plus 3 times 2' or '(25 + 75) / 4'.",
       },
     ],
+    body: {
+      conversationId
+    }
   });
 
   const messagesContainerRef = useRef<HTMLDivElement>(null);
@@ -190,6 +197,7 @@ export function CalculatorChat() {
                   <div className="whitespace-pre-wrap">{message.content}</div>
 
                   {message.parts && renderAnnotations(message.parts)}
+                  <ToolApprovalRequests annotations={message.annotations} />
                 </div>
               </div>
             </div>
@@ -4,6 +4,8 @@ import { useChat } from "@ai-sdk/react";
 import type { StreamPart } from "@voltagent/core";
 import type { UIMessage } from "ai";
 import { useEffect, useRef } from "react";
+import { useChatSession } from "./use-chat-session";
+import { ToolApprovalRequests } from "./tool-approval";
 
 interface ToolCallAnnotation {
   type: "tool-call";
@@ -37,8 +39,10 @@ interface ErrorAnnotation {
 type MessageAnnotation = ToolCallAnnotation | ToolResultAnnotation | ErrorAnnotation;
 
 export function DevChat() {
+  const { conversationId } = useChatSession();
   const { messages, input, handleInputChange, handleSubmit, isLoading } = useChat({
     api: "/api/chat",
+    id: conversationId,
     initialMessages: [
       {
         id: "welcome",
@@ -48,7 +52,8 @@ export function DevChat() {
       },
     ],
     body: {
-      agentName: "dev"
+      agentName: "dev",
+      conversationId
     }
   });
 
@@ -193,6 +198,7 @@ export function DevChat() {
                   <div className="whitespace-pre-wrap">{message.content}</div>
 
                   {message.parts && renderAnnotations(message.parts)}
+                  <ToolApprovalRequests annotations={message.annotations} />
                 </div>
               </div>
             </div>
@@ -0,0 +1,106 @@
+"use client";
+
+import type { JSONValue } from "ai";
+import { useState } from "react";
+
+/**
+ * Approval request streamed by /api/chat when a sensitive tool call is paused
+ */
+interface ApprovalRequestAnnotation {
+  type: "approval-request";
+  value: {
+    id: string;
+    toolName: string;
+    agentName?: string;
+    args: unknown;
+    expiresAt: string;
+    /** Proves the decision comes from this conversation's client */
+    token: string;
+  };
+}
+
+type ApprovalState = "pending" | "sending" | "approved" | "rejected" | "failed";
+
+const isApprovalRequest = (annotation: JSONValue): annotation is JSONValue & ApprovalRequestAnnotation =>
+  typeof annotation === "object" &&
+  annotation !== null &&
+  !Array.isArray(annotation) &&
+  annotation.type === "approval-request";
+
+function ToolApprovalCard({ request }: { request: ApprovalRequestAnnotation["value"] }) {
+  const [state, setState] = useState<ApprovalState>("pending");
+  const [error, setError] = useState<string>();
+
+  const decide = async (approved: boolean) => {
+    setState("sending");
+    try {
+      const response = await globalThis.fetch("/api/chat/approval", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ requestId: request.id, token: request.token, approved }),
+      });
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({}));
+        throw new Error(body.error ?? `Request failed (${response.status})`);
+      }
+      setState(approved ? "approved" : "rejected");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+      setState("failed");
+    }
+  };
+
+  return (
+    <div className="bg-yellow-900/30 border border-yellow-700/50 rounded-lg p-3 my-2">
+      <div className="flex items-center space-x-2">
+        <div className={`w-3 h-3 bg-yellow-400 rounded-full ${state === "pending" ? "animate-pulse" : ""}`} />
+        <span className="text-sm font-medium text-yellow-300">
+          Approval needed: {request.toolName} {request.agentName ? `(Agent: ${request.agentName})` : ""}
+        </span>
+      </div>
+      <div className="mt-2 text-xs text-yellow-200">
+        <strong>Arguments:</strong>{" "}
+        <code className="bg-yellow-950/50 px-1 rounded">{JSON.stringify(request.args)}</code>
+      </div>
+      {state === "pending" || state === "sending" ? (
+        <div className="mt-3 flex space-x-2">
+          <button
+            type="button"
+            onClick={() => decide(true)}
+            disabled={state === "sending"}
+            className="bg-green-700 hover:bg-green-600 text-white text-xs font-medium rounded px-3 py-1 disabled:opacity-70"
+          >
+            Approve
+          </button>
+          <button
+            type="button"
+            onClick={() => decide(false)}
+            disabled={state === "sending"}
+            className="bg-red-700 hover:bg-red-600 text-white text-xs font-medium rounded px-3 py-1 disabled:opacity-70"
+          >
+            Reject
+          </button>
+        </div>
+      ) : (
+        <div className="mt-2 text-xs text-yellow-100">
+          {state === "approved" && "✅ Approved"}
+          {state === "rejected" && "⛔ Rejected"}
+          {state === "failed" && `Could not send decision: ${error}`}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Approve/reject cards for the approval requests annotated on a message
+ */
+export function ToolApprovalRequests({ annotations = [] }: { annotations?: JSONValue[] }) {
+  return (
+    <>
+      {annotations.filter(isApprovalRequest).map((annotation) => (
+        <ToolApprovalCard key={annotation.value.id} request={annotation.value} />
+      ))}
+    </>
+  );
+}
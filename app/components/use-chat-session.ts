@@ -0,0 +1,25 @@
+"use client";
+
+import { useState } from "react";
+
+const createId = (prefix: string) =>
+  typeof globalThis.crypto?.randomUUID === "function"
+    ? `${prefix}-${globalThis.crypto.randomUUID()}`
+    : `${prefix}-${Date.now()}-${Math.random().toString(36).substring(2, 10)}`;
+
+/**
+ * Identifiers sent with every /api/chat request so the agents can continue a conversation.
+ * The user is identified by the cookie /api/chat sets, not by the client.
+ */
+export interface ChatSession {
+  conversationId: string;
+}
+
+/**
+ * Provides a conversationId that lives for as long as the chat component is mounted.
+ */
+export function useChatSession(): ChatSession {
+  const [conversationId] = useState(() => createId("conv"));
+
+  return { conversationId };
+}
@@ -0,0 +1,10 @@
+import { metricsService, METRICS_CONTENT_TYPE } from "@/voltagent/services/metrics";
+
+/**
+ * Prometheus scrape endpoint for the agents served by this Next.js process
+ */
+export async function GET() {
+  return new Response(metricsService.render(), {
+    headers: { "Content-Type": METRICS_CONTENT_TYPE },
+  });
+}
@@ -0,0 +1,70 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { AgentHooks } from "@voltagent/core";
+import { composeHooks, HookAbortError, registerGlobalHooks } from "../services/hookPipeline";
+
+type StartArgs = Parameters<NonNullable<AgentHooks["onStart"]>>[0];
+type PrepareArgs = Parameters<NonNullable<AgentHooks["onPrepareMessages"]>>[0];
+
+const startArgs = (agentName: string) => ({ agent: { name: agentName }, context: {} }) as unknown as StartArgs;
+
+describe("composeHooks", () => {
+  it("runs hook sets by order, then in the order they were passed", async () => {
+    const calls: string[] = [];
+    const hooks = composeHooks(
+      { name: "late", order: 10, hooks: { onStart: () => { calls.push("late"); } } },
+      { onStart: () => { calls.push("first"); } },
+      { name: "early", order: -1, hooks: { onStart: () => { calls.push("early"); } } },
+      { onStart: () => { calls.push("second"); } },
+    );
+    await hooks.onStart?.(startArgs("Agent"));
+    assert.deepEqual(calls, ["early", "first", "second", "late"]);
+  });
+
+  it("isolates failing and slow hooks but stops on HookAbortError", async () => {
+    const calls: string[] = [];
+    const hooks = composeHooks(
+      { name: "failing", hooks: { onStart: () => { throw new Error("broken"); } } },
+      { name: "slow", timeoutMs: 10, hooks: { onStart: () => new Promise<void>((resolve) => setTimeout(resolve, 100)) } },
+      { name: "after", hooks: { onStart: () => { calls.push("after"); } } },
+    );
+    await hooks.onStart?.(startArgs("Agent"));
+    assert.deepEqual(calls, ["after"]);
+
+    const aborting = composeHooks(
+      { name: "budget", hooks: { onStart: () => { throw new HookAbortError("Usage budget exceeded"); } } },
+      { name: "never", hooks: { onStart: () => { calls.push("never"); } } },
+    );
+    await assert.rejects(async () => aborting.onStart?.(startArgs("Agent")), HookAbortError);
+    assert.deepEqual(calls, ["after"]);
+  });
+
+  it("passes the messages of each onPrepareMessages hook to the next", async () => {
+    const append = (text: string) => ({
+      onPrepareMessages: ({ messages }: PrepareArgs) => ({
+        messages: [...messages, { role: "system" as const, content: text }],
+      }),
+    });
+    const hooks = composeHooks(append("a"), { onPrepareMessages: () => ({}) }, append("b"));
+    const result = await hooks.onPrepareMessages?.({ messages: [], agent: { name: "Agent" }, context: {} } as unknown as PrepareArgs);
+    assert.deepEqual(result?.messages?.map((message) => message.content), ["a", "b"]);
+  });
+
+  it("runs global hooks registered later, limited to their agents", async () => {
+    const calls: string[] = [];
+    const hooks = composeHooks({ onStart: () => { calls.push("local"); } });
+    const unregister = registerGlobalHooks({
+      name: "global",
+      agents: ["Math"],
+      hooks: { onStart: ({ agent }) => { calls.push(`global:${agent.name}`); } },
+    });
+    try {
+      await hooks.onStart?.(startArgs("Math"));
+      await hooks.onStart?.(startArgs("Other"));
+    } finally {
+      unregister();
+    }
+    await hooks.onStart?.(startArgs("Math"));
+    assert.deepEqual(calls, ["local", "global:Math", "local", "local"]);
+  });
+});
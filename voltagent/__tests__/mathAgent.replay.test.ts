@@ -0,0 +1,33 @@
+import { before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { join } from "node:path";
+
+const fixturePath = join(__dirname, "fixtures", "math-agent.json");
+
+// Every model call must come from the fixture; a live call fails the test
+process.env.GOOGLE_GENERATIVE_AI_API_KEY ??= "replay";
+globalThis.fetch = (async (input: string | URL | Request) => {
+  throw new Error(`Unexpected network call to ${String(input)}`);
+}) as typeof fetch;
+
+describe("MathAssistant (recorded run)", () => {
+  let services: typeof import("../services/replay");
+
+  before(async () => {
+    services = await import("../services/replay");
+    services.replayService.replay(fixturePath, { strict: true });
+  });
+
+  it("answers from the fixture, calling the calculator on the way", async () => {
+    const { mathAgent } = await import("../agents/mathAgent");
+    const result = await mathAgent.generateText("What is (12 + 30) * 2?", {
+      userId: "test-user",
+      conversationId: "replay-test",
+    });
+
+    assert.equal(result.text, "(12 + 30) * 2 = 84");
+    const { modelCalls, toolCalls } = services.replayService.getUnusedCalls();
+    assert.equal(modelCalls.length, 0);
+    assert.equal(toolCalls.length, 0);
+  });
+});
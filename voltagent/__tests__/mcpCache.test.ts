@@ -0,0 +1,69 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { MCPResultCache, normalizeArgs } from "../services/mcpCache";
+
+const fs = (localName: string) => ({ serverKey: "filesystem", localName });
+
+describe("normalizeArgs", () => {
+  it("sorts keys, trims strings and drops undefined values", () => {
+    assert.equal(
+      normalizeArgs({ b: " x ", a: [" y"], c: undefined }),
+      normalizeArgs({ a: ["y"], b: "x" }),
+    );
+    assert.equal(normalizeArgs(undefined), "{}");
+  });
+});
+
+describe("MCPResultCache", () => {
+  it("serves equivalent arguments from one entry until the TTL expires", async () => {
+    const cache = new MCPResultCache(10, "/ws");
+    cache.set("filesystem_read_file", fs("read_file"), { path: "a.txt" }, "content", 20);
+    assert.deepEqual(cache.get("filesystem_read_file", { path: " a.txt " }), { result: "content" });
+    await new Promise((resolve) => setTimeout(resolve, 30));
+    assert.equal(cache.get("filesystem_read_file", { path: "a.txt" }), undefined);
+    assert.deepEqual(cache.getStats(), { entries: 0, hits: 1, misses: 1, invalidations: 0 });
+  });
+
+  it("returns copies, so callers cannot change the cached result", () => {
+    const cache = new MCPResultCache(10, "/ws");
+    const result = { content: [{ text: "a" }] };
+    cache.set("filesystem_read_file", fs("read_file"), { path: "a.txt" }, result, 1000);
+    result.content.push({ text: "changed before" });
+    const first = cache.get("filesystem_read_file", { path: "a.txt" })?.result as typeof result;
+    first.content.push({ text: "changed after" });
+    assert.deepEqual(cache.get("filesystem_read_file", { path: "a.txt" })?.result, { content: [{ text: "a" }] });
+  });
+
+  it("drops the oldest entries beyond its size", () => {
+    const cache = new MCPResultCache(2, "/ws");
+    for (const path of ["a", "b", "c"]) {
+      cache.set("filesystem_read_file", fs("read_file"), { path }, path, 1000);
+    }
+    assert.equal(cache.get("filesystem_read_file", { path: "a" }), undefined);
+    assert.equal(cache.getStats().entries, 2);
+  });
+
+  it("invalidates only overlapping paths, resolved against the workspace", () => {
+    const cache = new MCPResultCache(10, "/ws");
+    cache.set("filesystem_read_file", fs("read_file"), { path: "/ws/src/a.ts" }, "a", 1000);
+    cache.set("filesystem_read_file", fs("read_file"), { path: "docs/b.md" }, "b", 1000);
+    cache.set("filesystem_list_directory", fs("list_directory"), { path: "." }, "ls", 1000);
+
+    const removed = cache.invalidate("filesystem", ["read_file", "list_directory"], "path", { path: "./src/" });
+    assert.equal(removed, 2);
+    assert.equal(cache.get("filesystem_read_file", { path: "/ws/src/a.ts" }), undefined);
+    assert.equal(cache.get("filesystem_list_directory", { path: "." }), undefined);
+    assert.deepEqual(cache.get("filesystem_read_file", { path: "docs/b.md" }), { result: "b" });
+  });
+
+  it("invalidates listed tools of the server, or every tool with *", () => {
+    const cache = new MCPResultCache(10, "/ws");
+    cache.set("filesystem_read_file", fs("read_file"), { path: "a" }, "a", 1000);
+    cache.set("filesystem_get_file_info", fs("get_file_info"), { path: "a" }, "info", 1000);
+    cache.set("git_git_status", { serverKey: "git", localName: "git_status" }, {}, "clean", 1000);
+
+    assert.equal(cache.invalidate("filesystem", ["read_file"], "server"), 1);
+    assert.equal(cache.invalidate("filesystem", ["*"], "server"), 1);
+    assert.deepEqual(cache.get("git_git_status", {}), { result: "clean" });
+  });
+});
@@ -0,0 +1,114 @@
+import { after, afterEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { parseMCPConfig, watchMCPConfig, type MCPRemoteServer } from "../services/mcpConfigFile";
+
+const dir = mkdtempSync(join(tmpdir(), "mcp-config-"));
+const yamlPath = join(dir, "mcp.servers.yaml");
+const savedEnv = { ...process.env };
+
+afterEach(() => {
+  process.env = { ...savedEnv };
+});
+after(() => rmSync(dir, { recursive: true, force: true }));
+
+describe("parseMCPConfig", () => {
+  it("defaults the transport to stdio and keeps remote servers", () => {
+    const servers = parseMCPConfig(JSON.stringify({
+      servers: {
+        fs: { name: "Filesystem", command: "npx", args: ["-y", "fs-server"] },
+        web: { name: "Web", type: "http", url: "https://mcp.example.com/mcp", auth: { type: "bearer", token: "abc" } },
+      },
+    }), "mcp.json");
+    assert.equal(servers.fs.type, "stdio");
+    assert.equal(servers.web.type, "http");
+  });
+
+  it("rejects invalid entries with the path of each issue", () => {
+    assert.throws(
+      () => parseMCPConfig("servers:\n  web:\n    name: Web\n    type: http\n    url: not a url\n  fs:\n    name: Filesystem\n", yamlPath),
+      (error: Error) => /servers\.web\.url: Invalid url/.test(error.message) && /servers\.fs\.command/.test(error.message),
+    );
+  });
+
+  it("skips url checks for disabled servers", () => {
+    const servers = parseMCPConfig("servers:\n  web:\n    name: Web\n    type: sse\n    url: ${UNSET_MCP_URL}\n    disabled: true\n", yamlPath);
+    assert.equal(servers.web.disabled, true);
+  });
+
+  it("interpolates ${VAR} and ${VAR:-default} in every string", () => {
+    process.env.MCP_TEST_HOST = "mcp.internal";
+    delete process.env.MCP_TEST_PORT;
+    process.env.MCP_TEST_EMPTY = "";
+    const servers = parseMCPConfig([
+      "servers:",
+      "  web:",
+      "    name: Web",
+      "    type: http",
+      "    url: https://${MCP_TEST_HOST}:${MCP_TEST_PORT:-8443}/mcp",
+      "    headers:",
+      "      X-Team: ${MCP_TEST_EMPTY:-platform}",
+      "    disabled: ${MCP_TEST_DISABLED:-false}",
+    ].join("\n"), yamlPath);
+    const web = servers.web as MCPRemoteServer;
+    assert.equal(web.url, "https://mcp.internal:8443/mcp");
+    assert.deepEqual(web.headers, { "X-Team": "platform" });
+    assert.equal(web.disabled, false);
+  });
+
+  it("disables servers whose required environment variables are missing", () => {
+    process.env.MCP_TEST_PRESENT = "1";
+    delete process.env.MCP_TEST_TOKEN;
+    const servers = parseMCPConfig([
+      "servers:",
+      "  github:",
+      "    name: GitHub",
+      "    type: http",
+      "    url: ${MCP_TEST_URL}",
+      "    requiredEnv: [MCP_TEST_PRESENT, MCP_TEST_TOKEN]",
+      "  local:",
+      "    name: Local",
+      "    command: node",
+      "    requiredEnv: [MCP_TEST_PRESENT]",
+    ].join("\n"), yamlPath);
+    assert.equal(servers.github.disabled, true);
+    assert.equal(servers.local.disabled, undefined);
+  });
+});
+
+describe("watchMCPConfig", () => {
+  it("reports each valid version of the file and ignores invalid edits", async () => {
+    writeFileSync(yamlPath, "servers:\n  a:\n    name: A\n    command: node\n");
+    const versions: string[][] = [];
+    let notify = () => {};
+    const stop = watchMCPConfig((servers) => {
+      versions.push(Object.keys(servers));
+      notify();
+    }, yamlPath, 10);
+    try {
+      // The watcher does not keep the process alive, so the timeout does
+      const changed = () => new Promise<void>((resolve, reject) => {
+        const timer = setTimeout(() => reject(new Error("configuration change not reported")), 5000);
+        notify = () => {
+          clearTimeout(timer);
+          resolve();
+        };
+      });
+
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      const reloaded = changed();
+      writeFileSync(yamlPath, "servers:\n  a:\n    name: A\n    command: node\n  b:\n    name: B\n    command: node\n");
+      await reloaded;
+      assert.deepEqual(versions, [["a", "b"]]);
+
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      writeFileSync(yamlPath, "servers:\n  c:\n    name: C\n    type: http\n    url: nope\n");
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      assert.deepEqual(versions, [["a", "b"]]);
+    } finally {
+      stop();
+    }
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { CircuitBreaker, DEFAULT_CALL_POLICY, executeWithPolicy, type ResolvedCallPolicy } from "../services/mcpPolicy";
+
+const target = { toolName: "t_echo", serverKey: "t" };
+const policy = (overrides: Partial<ResolvedCallPolicy> = {}): ResolvedCallPolicy => ({
+  ...DEFAULT_CALL_POLICY,
+  retryDelayMs: 1,
+  ...overrides,
+});
+const fail = () => Promise.reject(new Error("boom"));
+
+describe("CircuitBreaker", () => {
+  it("opens after the failure threshold and fails fast", () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 2, resetAfterMs: 60_000 });
+    breaker.recordFailure();
+    assert.equal(breaker.state, "closed");
+    breaker.recordFailure();
+    assert.equal(breaker.state, "open");
+    assert.equal(breaker.tryAcquire(), false);
+  });
+
+  it("lets a single trial call through once the reset time has passed", async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, resetAfterMs: 5 });
+    breaker.recordFailure();
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    assert.equal(breaker.state, "half_open");
+    assert.equal(breaker.tryAcquire(), true);
+    assert.equal(breaker.tryAcquire(), false);
+    breaker.recordSuccess();
+    assert.equal(breaker.state, "closed");
+  });
+
+  it("opens again when the trial call fails", async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 3, resetAfterMs: 5 });
+    breaker.recordFailure();
+    breaker.recordFailure();
+    breaker.recordFailure();
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    assert.equal(breaker.tryAcquire(), true);
+    breaker.recordFailure();
+    assert.equal(breaker.state, "open");
+  });
+});
+
+describe("executeWithPolicy", () => {
+  it("returns the result and one attempt on success", async () => {
+    const { outcome, result, error } = await executeWithPolicy(async () => "ok", policy(), new CircuitBreaker(), target);
+    assert.equal(result, "ok");
+    assert.equal(error, undefined);
+    assert.equal(outcome.status, "success");
+    assert.equal(outcome.attempts, 1);
+  });
+
+  it("retries idempotent tools only", async () => {
+    let calls = 0;
+    const flaky = () => (++calls < 3 ? fail() : Promise.resolve("ok"));
+    const retried = await executeWithPolicy(flaky, policy({ idempotent: true, retries: 2 }), new CircuitBreaker(), target);
+    assert.equal(retried.result, "ok");
+    assert.equal(retried.outcome.attempts, 3);
+
+    calls = 0;
+    const single = await executeWithPolicy(flaky, policy({ idempotent: false, retries: 2 }), new CircuitBreaker(), target);
+    assert.equal(single.outcome.status, "error");
+    assert.equal(single.outcome.attempts, 1);
+    assert.equal(single.error?.message, "boom");
+  });
+
+  it("reports a timeout", async () => {
+    const slow = () => new Promise((resolve) => setTimeout(resolve, 200));
+    const { outcome, error } = await executeWithPolicy(slow, policy({ timeoutMs: 10 }), new CircuitBreaker(), target);
+    assert.equal(outcome.status, "timeout");
+    assert.match(error?.message ?? "", /timed out after 10ms/);
+  });
+
+  it("fails fast without calling the tool while the circuit is open", async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, resetAfterMs: 60_000 });
+    await executeWithPolicy(fail, policy(), breaker, target);
+    let called = false;
+    const { outcome } = await executeWithPolicy(async () => { called = true; }, policy(), breaker, target);
+    assert.equal(outcome.status, "circuit_open");
+    assert.equal(outcome.attempts, 0);
+    assert.equal(called, false);
+  });
+});
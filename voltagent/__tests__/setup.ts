@@ -0,0 +1,19 @@
+/**
+ * Loaded before every test file: services open their database on import, so each
+ * test process gets a throwaway one unless DATABASE_URL is set
+ */
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+if (!process.env.DATABASE_URL) {
+  const dataDir = mkdtempSync(join(tmpdir(), "voltagent-test-"));
+  process.env.DATABASE_URL = `file:${join(dataDir, "test.db")}`;
+  process.on("exit", () => rmSync(dataDir, { recursive: true, force: true }));
+}
+
+// Test files report to the runner over stdout; service logs written there can split its
+// messages ("Unable to deserialize cloned data"), so they go to stderr instead
+for (const method of ["log", "info", "debug"] as const) {
+  console[method] = console.error;
+}
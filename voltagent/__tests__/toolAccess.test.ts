@@ -0,0 +1,79 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  allowedReposGuard,
+  matchesToolGlob,
+  pathPrefixGuard,
+  readOnlySqlGuard,
+  ToolAccessService,
+  TOOL_BASELINE_POLICY,
+  workspaceDir,
+} from "../services/toolAccess";
+
+describe("matchesToolGlob", () => {
+  it("supports * and ? and escapes everything else", () => {
+    assert.equal(matchesToolGlob("git_git_diff_staged", "git_git_diff*"), true);
+    assert.equal(matchesToolGlob("git_git_log", "git_git_lo?"), true);
+    assert.equal(matchesToolGlob("gitXgit_log", "git.git_log"), false);
+  });
+});
+
+describe("guards", () => {
+  it("keeps path arguments inside the prefixes", () => {
+    const guard = pathPrefixGuard([workspaceDir]);
+    assert.equal(guard.safeParse({ path: "src/index.ts" }).success, true);
+    assert.equal(guard.safeParse({ paths: ["a.txt", "../outside.txt"] }).success, false);
+    assert.equal(guard.safeParse({ destination: "/etc/passwd" }).success, false);
+    assert.equal(guard.safeParse({ content: "../not-a-path-key" }).success, true);
+  });
+
+  it("accepts a single read-only SQL statement", () => {
+    const guard = readOnlySqlGuard();
+    assert.equal(guard.safeParse({ sql: "SELECT * FROM users;" }).success, true);
+    assert.equal(guard.safeParse({ sql: "WITH t AS (SELECT 1) SELECT * FROM t" }).success, true);
+    assert.equal(guard.safeParse({ sql: "DROP TABLE users" }).success, false);
+    assert.equal(guard.safeParse({ sql: "SELECT 1; DELETE FROM users" }).success, false);
+    assert.equal(guard.safeParse({ sql: "SELECT * INTO copy FROM users" }).success, false);
+  });
+
+  it("limits GitHub calls to the allowed repositories", () => {
+    const guard = allowedReposGuard(["acme/app"]);
+    assert.equal(guard.safeParse({ owner: "ACME", repo: "App" }).success, true);
+    assert.equal(guard.safeParse({ owner: "acme", repo: "other" }).success, false);
+    assert.equal(guard.safeParse({ query: "no repo arguments" }).success, true);
+  });
+});
+
+describe("ToolAccessService", () => {
+  const service = new ToolAccessService({
+    Reader: { allow: ["filesystem_read_*", "postgres_*"], deny: ["filesystem_read_secret"] },
+    Builder: {},
+  });
+
+  it("denies every tool to agents without a policy", () => {
+    assert.equal(service.isToolAllowed("Unknown", "filesystem_read_file"), false);
+    assert.match(service.checkCall("Unknown", "filesystem_read_file", { path: "a" }) ?? "", /no tool access policy/);
+  });
+
+  it("applies allow and deny globs, deny first", () => {
+    assert.equal(service.isToolAllowed("Reader", "filesystem_read_file"), true);
+    assert.equal(service.isToolAllowed("Reader", "filesystem_read_secret"), false);
+    assert.equal(service.isToolAllowed("Reader", "filesystem_write_file"), false);
+    assert.equal(service.isToolAllowed("Builder", "docker_run_container"), true);
+  });
+
+  it("applies the baseline to every agent", () => {
+    assert.equal(service.isToolAllowed("Builder", "git_git_reset"), false);
+    assert.equal(service.isToolAllowed("Builder", "docker_remove_container"), false);
+    assert.match(service.checkCall("Reader", "postgres_query", { sql: "DROP TABLE users" }) ?? "", /SQL must be read-only/);
+    assert.match(service.checkCall("Builder", "filesystem_write_file", { path: "../x" }) ?? "", /inside the workspace/);
+    assert.equal(service.checkCall("Reader", "postgres_query", { sql: "SELECT 1" }), undefined);
+  });
+
+  it("revokes tools when a policy is removed", () => {
+    const local = new ToolAccessService({ Temp: {} }, TOOL_BASELINE_POLICY);
+    assert.equal(local.isToolAllowed("Temp", "memory_search"), true);
+    local.setPolicy("Temp", undefined);
+    assert.equal(local.isToolAllowed("Temp", "memory_search"), false);
+  });
+});
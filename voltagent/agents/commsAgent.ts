@@ -2,7 +2,9 @@ import { Agent, createReasoningTools } from "@voltagent/core";
 import { VercelAIProvider } from "@voltagent/vercel-ai";
 import { google } from "../config/googleProvider";
 import { createSubAgentHooks } from "../services/hooks";
+import { composeHooks } from "../services/hookPipeline";
 import { memoryStorage } from "../services/memory";
+import { createToolDiscoveryTools } from "../tools";
 
 /**
  * Static system prompt for communication agent to avoid runtime modifications.
@@ -42,14 +44,20 @@ export const commsAgent = new Agent({
   model: google("gemini-2.5-flash-lite-preview-06-17"),
   tools: [
     commsReasoningTools, // Add reasoning tools for communication analysis
+    ...createToolDiscoveryTools("Communicator"), // Find and use MCP tools outside the bound servers
   ],
   markdown: true,
-  hooks: createSubAgentHooks("Communicator", "communication and collaboration", {
-    verbose: true, // Set to true for debugging communications
-    performance: true,
-    analytics: true,
-    logPrefix: "[VoltAgent:Comms]"
-  }),
+  hooks: composeHooks(
+    {
+      name: "sub-agent",
+      hooks: createSubAgentHooks("Communicator", "communication and collaboration", {
+        verbose: true, // Set to true for debugging communications
+        performance: true,
+        analytics: true,
+        logPrefix: "[VoltAgent:Comms]"
+      }),
+    },
+  ),
   // Memory for tracking communication history and contacts
   memory: memoryStorage,
   thinkingConfig: {
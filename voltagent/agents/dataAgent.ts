@@ -3,7 +3,9 @@ import { VercelAIProvider } from "@voltagent/vercel-ai";
 import { google } from "../config/googleProvider";
 import { mcpToolsService } from "../services/mcp";
 import { createSubAgentHooks } from "../services/hooks";
+import { composeHooks } from "../services/hookPipeline";
 import { memoryStorage } from "../services/memory";
+import { createToolDiscoveryTools } from "../tools";
 
 /**
  * Static system prompt for data management agent to avoid runtime modifications.
@@ -43,14 +45,19 @@ export const dataAgent = new Agent({
   model: google("gemini-2.5-flash-lite-preview-06-17"),
   tools: [
     dataReasoningTools, // Add reasoning tools for data analysis
-    ...mcpToolsService.getToolsForAgent(['postgres', 'cloud'])
+    ...createToolDiscoveryTools("DataManager"), // Find and use MCP tools outside the bound servers
 ],  
-  hooks: createSubAgentHooks("DataManager", "database and data operations", {
-    verbose: true, // Set to true for debugging data operations
-    performance: true,
-    analytics: true,
-    logPrefix: "[VoltAgent:Data]"
-  }),
+  hooks: composeHooks(
+    {
+      name: "sub-agent",
+      hooks: createSubAgentHooks("DataManager", "database and data operations", {
+        verbose: true, // Set to true for debugging data operations
+        performance: true,
+        analytics: true,
+        logPrefix: "[VoltAgent:Data]"
+      }),
+    },
+  ),
   // Memory for tracking data operations and query history
   memory: memoryStorage,
   markdown: true,
@@ -60,3 +67,6 @@ export const dataAgent = new Agent({
   },
   structuredOutputs: true // Enable structured outputs for better data management and analysis
 });
+
+// MCP tools are attached once their servers are up (see createAgents)
+mcpToolsService.bindAgentTools(dataAgent, ['postgres']);
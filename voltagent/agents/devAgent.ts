@@ -3,7 +3,9 @@ import { VercelAIProvider } from "@voltagent/vercel-ai";
 import { google } from "../config/googleProvider";
 import { mcpToolsService } from "../services/mcp";
 import { createSubAgentHooks } from "../services/hooks";
+import { composeHooks } from "../services/hookPipeline";
 import { memoryStorage } from "../services/memory";
+import { listMcpResourcesTool, readMcpResourceTool, getMcpPromptTool, createToolDiscoveryTools } from "../tools";
 
 /**
  * Static system prompt for development agent to avoid runtime modifications.
@@ -17,6 +19,7 @@ const developmentPrompt = `You are a software development specialist. You can:
 - Manage development workflows and CI/CD processes
 - Debug issues and troubleshoot development problems
 - Set up and configure development tools
+- Read MCP resources and prompt templates (docs, reference data) to use as context
 
 Always use 'think' to analyze requirements and plan development approach. Use 'analyze' to evaluate code quality and determine next steps. Follow best practices for version control and code quality.`;
 
@@ -42,15 +45,23 @@ export const devAgent = new Agent({
   model: google("gemini-2.5-flash-lite-preview-06-17"),
   tools: [
     devReasoningTools, // Add reasoning tools for development analysis
-    ...mcpToolsService.getToolsForAgent(['git', 'github', 'docker'])
+    listMcpResourcesTool,
+    readMcpResourceTool,
+    getMcpPromptTool,
+    ...createToolDiscoveryTools("Developer"), // Find and use MCP tools outside the bound servers
   ],
 
-  hooks: createSubAgentHooks("Developer", "development and DevOps", {
-    verbose: true, // Set to true for debugging development operations
-    performance: true,
-    analytics: true,
-    logPrefix: "[VoltAgent:Dev]"
-  }),
+  hooks: composeHooks(
+    {
+      name: "sub-agent",
+      hooks: createSubAgentHooks("Developer", "development and DevOps", {
+        verbose: true, // Set to true for debugging development operations
+        performance: true,
+        analytics: true,
+        logPrefix: "[VoltAgent:Dev]"
+      }),
+    },
+  ),
   // Memory for tracking development context and project state
   memory: memoryStorage,
   markdown: true,
@@ -66,3 +77,6 @@ export const devAgent = new Agent({
   },
   useSearchGrounding: true,
 });
+
+// MCP tools are attached once their servers are up (see createAgents)
+mcpToolsService.bindAgentTools(devAgent, ['git', 'github', 'docker']);
@@ -3,7 +3,9 @@ import { VercelAIProvider } from "@voltagent/vercel-ai";
 import { google } from "../config/googleProvider";
 import { mcpToolsService } from "../services/mcp";
 import { createSubAgentHooks } from "../services/hooks";
+import { composeHooks } from "../services/hookPipeline";
 import { memoryStorage } from "../services/memory";
+import { createToolDiscoveryTools } from "../tools";
 
 /**
  * Static system prompt for file agent to avoid runtime modifications.
@@ -41,14 +43,19 @@ export const fileAgent = new Agent({
   model: google("gemini-2.5-flash-lite-preview-06-17"),
   tools: [
       fileReasoningTools, // Add reasoning tools for file analysis
-      ...mcpToolsService.getToolsForAgent(['filesystem', 'cloud'])
+      ...createToolDiscoveryTools("FileManager"), // Find and use MCP tools outside the bound servers
     ],  
-  hooks: createSubAgentHooks("FileManager", "file operations and storage", {
-    verbose: true, // Set to true for debugging file operations
-    performance: true,
-    analytics: true,
-    logPrefix: "[VoltAgent:File]"
-  }),
+  hooks: composeHooks(
+    {
+      name: "sub-agent",
+      hooks: createSubAgentHooks("FileManager", "file operations and storage", {
+        verbose: true, // Set to true for debugging file operations
+        performance: true,
+        analytics: true,
+        logPrefix: "[VoltAgent:File]"
+      }),
+    },
+  ),
   markdown: true,
   // Memory for tracking file operations and states
   memory: memoryStorage,
@@ -58,3 +65,6 @@ export const fileAgent = new Agent({
   },
   structuredOutputs: true // Enable structured outputs for better file management and retrieval
 });
+
+// MCP tools are attached once their servers are up (see createAgents)
+mcpToolsService.bindAgentTools(fileAgent, ['filesystem']);
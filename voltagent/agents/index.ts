@@ -1,7 +1,12 @@
+/* global console */
 /**
  * Agent Exports
  * Central export point for all VoltAgent agents
  */
+import { mcpToolsService, type AgentToolReport } from "../services/mcp";
+import { toolSelectionService, toolPreselectionEnabled } from "../services/toolSelection";
+import { redactionService } from "../services/redaction";
+import { toolTimelineService } from "../services/toolTimeline";
 
 // Specialized Sub-Agents
 export { mathAgent } from "./mathAgent";
@@ -30,3 +35,50 @@ export const allAgents = {
   supervisor: () => import("./supervisorAgent").then(m => m.supervisorAgent),
   ...subAgents,
 };
+
+/**
+ * Build the agent registry once MCP servers have been initialized,
+ * so MCP-backed agents start with their tools attached.
+ * Tools from servers that come online later are attached as they load.
+ */
+export async function createAgents() {
+  // Keep secrets and PII out of everything the agents and services log
+  redactionService.installConsole();
+  await mcpToolsService.start();
+
+  const [supervisor, math, file, web, dev, data, comms, memory] = await Promise.all([
+    allAgents.supervisor(),
+    allAgents.math(),
+    allAgents.file(),
+    allAgents.web(),
+    allAgents.dev(),
+    allAgents.data(),
+    allAgents.comms(),
+    allAgents.memory(),
+  ]);
+
+  const report: AgentToolReport[] = mcpToolsService.getAgentToolReport();
+  for (const entry of report) {
+    const missing = entry.missingServers.length > 0 ? ` (no tools from: ${entry.missingServers.join(", ")})` : "";
+    console.log(`🔧 ${entry.agentName}: ${entry.toolNames.length} MCP tools${missing}`);
+  }
+  for (const diagnostic of mcpToolsService.getAgentDiagnostics()) {
+    if (diagnostic.unknownServers.length > 0) {
+      console.warn(`⚠️  ${diagnostic.agentName} requests unknown MCP servers: ${diagnostic.unknownServers.join(", ")}`);
+    }
+  }
+
+  const agents = { supervisor, math, file, web, dev, data, comms, memory };
+  // Time tool calls where they run, keyed by the model's tool call id
+  Object.values(agents).forEach((agent) => toolTimelineService.instrumentAgent(agent));
+  if (toolPreselectionEnabled) {
+    // Send only the most relevant tools on each call (see TOOL_PRESELECTION_TOP_K)
+    Object.values(agents).forEach((agent) => toolSelectionService.enableFor(agent));
+    console.log(`🎯 Tool preselection enabled (top ${toolSelectionService.options.topK} tools per call)`);
+  }
+
+  return {
+    agents,
+    report,
+  };
+}
@@ -1,8 +1,9 @@
 import { Agent, createReasoningTools } from "@voltagent/core";
 import { VercelAIProvider } from "@voltagent/vercel-ai";
 import { google } from "../config/googleProvider";
-import { calculatorTool } from "../tools";
+import { calculatorTool, createToolDiscoveryTools } from "../tools";
 import { createSubAgentHooks } from "../services/hooks";
+import { composeHooks } from "../services/hookPipeline";
 import { memoryStorage } from "../services/memory";
 
 /**
@@ -38,13 +39,18 @@ export const mathAgent = new Agent({
   instructions: mathPrompt,
   llm: new VercelAIProvider(),
   model: google("gemini-2.5-flash-lite-preview-06-17"),
-  tools: [mathReasoningTools, calculatorTool],
-  hooks: createSubAgentHooks("MathAssistant", "mathematical calculations", {
-    verbose: true, // Set to true for debugging math operations
-    performance: true,
-    analytics: true,
-    logPrefix: "[VoltAgent:Math]"
-  }),
+  tools: [mathReasoningTools, calculatorTool, ...createToolDiscoveryTools("MathAssistant")],
+  hooks: composeHooks(
+    {
+      name: "sub-agent",
+      hooks: createSubAgentHooks("MathAssistant", "mathematical calculations", {
+        verbose: true, // Set to true for debugging math operations
+        performance: true,
+        analytics: true,
+        logPrefix: "[VoltAgent:Math]"
+      }),
+    },
+  ),
   markdown: true,
   // Memory for tracking calculation history and mathematical context
   memory: memoryStorage,
@@ -3,7 +3,9 @@ import { VercelAIProvider } from "@voltagent/vercel-ai";
 import { google } from "../config/googleProvider";
 import { mcpToolsService } from "../services/mcp";
 import { createSubAgentHooks } from "../services/hooks";
+import { composeHooks } from "../services/hookPipeline";
 import { memoryStorage } from "../services/memory";
+import { listMcpResourcesTool, readMcpResourceTool, getMcpPromptTool, createToolDiscoveryTools } from "../tools";
 
 /**
  * Static system prompt for memory agent to avoid runtime modifications.
@@ -18,6 +20,7 @@ const knowledgePrompt = `You are a knowledge management and memory specialist. Y
 - Create knowledge graphs and relationships
 - Summarize and extract key insights from information
 - Help with decision-making through structured analysis
+- Read MCP resources and prompt templates (docs, reference data) to use as context
 
 Always use 'think' to analyze information requests before proceeding. Use 'analyze' to evaluate retrieved knowledge and determine if additional context is needed.`;
 
@@ -43,15 +46,23 @@ export const memoryAgent = new Agent({
   model: google("gemini-2.5-flash-lite-preview-06-17"),
   tools: [
       memoryReasoningTools, // Add reasoning tools for knowledge analysis
-      ...mcpToolsService.getToolsForAgent(['memory'])
+      listMcpResourcesTool,
+      readMcpResourceTool,
+      getMcpPromptTool,
+      ...createToolDiscoveryTools("KnowledgeKeeper"), // Find and use MCP tools outside the bound servers
     ],  
   markdown: true,
-  hooks: createSubAgentHooks("KnowledgeKeeper", "memory and knowledge management", {
-    verbose: true, // Set to true for debugging memory operations
-    performance: true,
-    analytics: true,
-    logPrefix: "[VoltAgent:Memory]"
-  }),
+  hooks: composeHooks(
+    {
+      name: "sub-agent",
+      hooks: createSubAgentHooks("KnowledgeKeeper", "memory and knowledge management", {
+        verbose: true, // Set to true for debugging memory operations
+        performance: true,
+        analytics: true,
+        logPrefix: "[VoltAgent:Memory]"
+      }),
+    },
+  ),
   // Memory for conversation context and knowledge storage
   memory: memoryStorage,
   // Retriever for accessing stored knowledge and conversations
@@ -61,3 +72,6 @@ export const memoryAgent = new Agent({
   },
   structuredOutputs: true // Enable structured outputs for better knowledge organization and retrieval
 });
+
+// MCP tools are attached once their servers are up (see createAgents)
+mcpToolsService.bindAgentTools(memoryAgent, ['memory']);
@@ -8,9 +8,11 @@ import { devAgent } from "./devAgent";
 import { dataAgent } from "./dataAgent";
 import { commsAgent } from "./commsAgent";
 import { memoryAgent } from "./memoryAgent";
-import { createSupervisorHooks } from "../services/hooks";
+import { createSupervisorHooks, createConversationHooks, createConversationSummaryHooks } from "../services/hooks";
+import { composeHooks } from "../services/hookPipeline";
 import { memoryStorage } from "../services/memory";
 import { MemoryRetriever } from "../services/retriever";
+import { createToolDiscoveryTools } from "../tools";
 
 /**
  * Static system prompt for supervisor agent to avoid runtime modifications.
@@ -51,7 +53,7 @@ export const supervisorAgent = new Agent({
   instructions: supervisorPrompt,
   llm: new VercelAIProvider(),
   model: google("gemini-2.5-flash-lite-preview-06-17"),
-  tools: [reasoningToolkit, /* delegate_task is automatically added when subAgents are defined */],
+  tools: [reasoningToolkit, ...createToolDiscoveryTools("Supervisor"), /* delegate_task is automatically added when subAgents are defined */],
   subAgents: [
     mathAgent,
     fileAgent,
@@ -62,12 +64,21 @@ export const supervisorAgent = new Agent({
     memoryAgent
   ],
   markdown: true,
-  hooks: createSupervisorHooks("Supervisor", {
-    verbose: true, // Set to true for debugging delegation
-    performance: true,
-    analytics: true,
-    logPrefix: "[VoltAgent:Supervisor]"
-  }),
+  hooks: composeHooks(
+    {
+      name: "supervisor",
+      hooks: createSupervisorHooks("Supervisor", {
+        verbose: true, // Set to true for debugging delegation
+        performance: true,
+        analytics: true,
+        logPrefix: "[VoltAgent:Supervisor]"
+      }),
+    },
+    // Conversation snapshots for the UI run after the supervisor bookkeeping
+    { name: "conversation", hooks: createConversationHooks("Supervisor"), order: 10 },
+    // Keeps conversation summaries searchable by the memory retriever
+    { name: "summary", hooks: createConversationSummaryHooks(), order: 20 },
+  ),
   memory: memoryStorage,
   retriever: new MemoryRetriever(memoryStorage, {
     toolName: "search_conversation_history",
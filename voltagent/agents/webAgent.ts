@@ -3,7 +3,9 @@ import { VercelAIProvider } from "@voltagent/vercel-ai";
 import { google } from "../config/googleProvider";
 import { mcpToolsService } from "../services/mcp";
 import { createSubAgentHooks } from "../services/hooks";
+import { composeHooks } from "../services/hookPipeline";
 import { memoryStorage } from "../services/memory";
+import { createToolDiscoveryTools } from "../tools";
 
 /**
  * Static system prompt for web research agent to avoid runtime modifications.
@@ -42,14 +44,19 @@ export const webAgent = new Agent({
   model: google("gemini-2.5-flash-lite-preview-06-17"),
   tools: [
     researchReasoningTools, // Add reasoning tools for research analysis
-    ...mcpToolsService.getToolsForAgent(['web_search', 'browser'])
+    ...createToolDiscoveryTools("WebResearcher"), // Find and use MCP tools outside the bound servers
   ],  
-  hooks: createSubAgentHooks("WebResearcher", "web research and browsing", {
-    verbose: true, // Set to true for debugging web operations
-    performance: true,
-    analytics: true,
-    logPrefix: "[VoltAgent:Web]"
-  }),  // Memory for maintaining research context and findings
+  hooks: composeHooks(
+    {
+      name: "sub-agent",
+      hooks: createSubAgentHooks("WebResearcher", "web research and browsing", {
+        verbose: true, // Set to true for debugging web operations
+        performance: true,
+        analytics: true,
+        logPrefix: "[VoltAgent:Web]"
+      }),
+    },
+  ),  // Memory for maintaining research context and findings
   memory: memoryStorage,
   markdown: true,
   thinkingConfig: {
@@ -63,3 +70,6 @@ export const webAgent = new Agent({
   },
   useSearchGrounding: true,
 });
+
+// MCP tools are attached once their servers are up (see createAgents)
+mcpToolsService.bindAgentTools(webAgent, ['web_search', 'browser']);
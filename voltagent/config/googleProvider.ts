@@ -27,13 +27,16 @@
  * });
  * ```
  */
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { wrapLanguageModel, type LanguageModelV1Middleware } from 'ai';
 import {
-  google as baseGoogle,
+  createGoogleGenerativeAI,
   GoogleGenerativeAIProviderSettings,
   GoogleGenerativeAIProviderOptions,
   GoogleGenerativeAIProviderMetadata
 } from '@ai-sdk/google';
 import { GoogleAICacheManager } from '@google/generative-ai/server';
+import { replayService } from '../services/replay';
 
 // Simple console-based logger for VoltAgent compatibility
 const logger = {
@@ -95,6 +98,34 @@ export const GEMINI_CONFIG = {
   }
 } as const;
 
+/**
+ * Prices in USD per million tokens. Cached input is billed at the cached rate instead of the
+ * input rate; `longContext` applies when a prompt exceeds `longContextThreshold` tokens.
+ * @see https://ai.google.dev/gemini-api/docs/pricing
+ */
+export interface GeminiModelPricing {
+  input: number;
+  output: number;
+  cachedInput: number;
+  longContextThreshold?: number;
+  longContext?: Omit<GeminiModelPricing, 'longContextThreshold' | 'longContext'>;
+}
+
+/**
+ * Price table for every model in GEMINI_CONFIG.MODELS (output priced without thinking tokens)
+ */
+export const GEMINI_PRICING: Record<(typeof GEMINI_CONFIG.MODELS)[keyof typeof GEMINI_CONFIG.MODELS], GeminiModelPricing> = {
+  [GEMINI_CONFIG.MODELS.GEMINI_2_5_FLASH_LITE]: { input: 0.1, output: 0.4, cachedInput: 0.025 },
+  [GEMINI_CONFIG.MODELS.GEMINI_2_5_FLASH]: { input: 0.15, output: 0.6, cachedInput: 0.0375 },
+  [GEMINI_CONFIG.MODELS.GEMINI_2_5_PRO]: {
+    input: 1.25,
+    output: 10,
+    cachedInput: 0.31,
+    longContextThreshold: 200_000,
+    longContext: { input: 2.5, output: 15, cachedInput: 0.625 }
+  }
+};
+
 /**
  * Supported models for explicit caching (using your current model naming)
  * @see https://ai.google.dev/gemini-api/docs/caching
@@ -115,6 +146,82 @@ logger.info('Google provider configuration loaded', {
 });
 
 
+/**
+ * Cached token count seen in the raw responses of the model call in progress
+ */
+const cacheUsageStorage = new AsyncLocalStorage<{ cachedTokens?: number }>();
+
+/**
+ * fetch that notes the cachedContentTokenCount of Gemini responses as they pass through.
+ * @ai-sdk/google 1.x drops the count from parsed responses and stream chunks.
+ */
+const fetchWithCacheUsage: typeof fetch = async (input, init) => {
+  const response = await fetch(input, init);
+  const collector = cacheUsageStorage.getStore();
+  if (!collector || !response.body) {
+    return response;
+  }
+  const decoder = new TextDecoder();
+  let tail = '';
+  const body = response.body.pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      // Keep the end of the previous chunk so a count split across chunks is still found
+      const text = tail + decoder.decode(chunk, { stream: true });
+      for (const match of text.matchAll(/"cachedContentTokenCount"\s*:\s*(\d+)/g)) {
+        collector.cachedTokens = Number(match[1]);
+      }
+      tail = text.slice(-64);
+      controller.enqueue(chunk);
+    }
+  }));
+  return new Response(body, { status: response.status, statusText: response.statusText, headers: response.headers });
+};
+
+const baseGoogle = createGoogleGenerativeAI({ fetch: fetchWithCacheUsage });
+
+/**
+ * Adds the cached token count to the `google` provider metadata of generate results and stream finish parts
+ */
+const cacheUsageMiddleware: LanguageModelV1Middleware = {
+  wrapGenerate: async ({ doGenerate }) => {
+    const collector: { cachedTokens?: number } = {};
+    const result = await cacheUsageStorage.run(collector, doGenerate);
+    if (collector.cachedTokens === undefined) {
+      return result;
+    }
+    return {
+      ...result,
+      providerMetadata: {
+        ...result.providerMetadata,
+        google: { ...result.providerMetadata?.google, cachedContentTokenCount: collector.cachedTokens }
+      }
+    };
+  },
+  wrapStream: async ({ doStream }) => {
+    const collector: { cachedTokens?: number } = {};
+    const result = await cacheUsageStorage.run(collector, doStream);
+    type StreamPart = typeof result.stream extends ReadableStream<infer T> ? T : never;
+    return {
+      ...result,
+      stream: result.stream.pipeThrough(new TransformStream<StreamPart, StreamPart>({
+        transform(part, controller) {
+          if (part.type === 'finish' && collector.cachedTokens !== undefined) {
+            controller.enqueue({
+              ...part,
+              providerMetadata: {
+                ...part.providerMetadata,
+                google: { ...part.providerMetadata?.google, cachedContentTokenCount: collector.cachedTokens }
+              }
+            });
+            return;
+          }
+          controller.enqueue(part);
+        }
+      }))
+    };
+  }
+};
+
 /**
  * Enhanced base Google model with Gemini 2.5 Flash Lite as default
  * Supports all advanced features via proper AI SDK patterns
@@ -163,16 +270,20 @@ export const baseGoogleModel = (
   });
 
   try {
-    const model = baseGoogle(modelId, {
-      useSearchGrounding,
-      dynamicRetrievalConfig: dynamicRetrieval ? {
-        mode: 'MODE_DYNAMIC',
-        dynamicThreshold: 0.8
-      } : undefined,
-      safetySettings: [...GEMINI_CONFIG.SAFETY_PRESETS[safetyLevel]],
-      cachedContent,
-      structuredOutputs
-    });
+    // Calls are recorded to or served from a fixture when REPLAY_MODE is set
+    const model = replayService.wrapLanguageModel(wrapLanguageModel({
+      model: baseGoogle(modelId, {
+        useSearchGrounding,
+        dynamicRetrievalConfig: dynamicRetrieval ? {
+          mode: 'MODE_DYNAMIC',
+          dynamicThreshold: 0.8
+        } : undefined,
+        safetySettings: [...GEMINI_CONFIG.SAFETY_PRESETS[safetyLevel]],
+        cachedContent,
+        structuredOutputs
+      }),
+      middleware: cacheUsageMiddleware
+    }));
 
     // Add Langfuse metadata to the model for automatic tracing
     if (agentName || tags.length > 0 || Object.keys(metadata).length > 0) {
@@ -333,10 +444,10 @@ export function createGeminiEmbeddingModel(
     taskType = 'SEMANTIC_SIMILARITY'
   } = options;
 
-  return baseGoogle.textEmbeddingModel(modelId, {
+  return replayService.wrapEmbeddingModel(baseGoogle.textEmbeddingModel(modelId, {
     outputDimensionality,
     taskType
-  });
+  }));
 }
 
 /**
@@ -641,22 +752,56 @@ export function extractGroundingMetadata(providerMetadata?: Record<string, unkno
  * [EDIT: 2025-06-22] [BY: GitHub Copilot]
  */
 export function logCacheUsage(response: Record<string, unknown>, customLogger = logger) {
-  const responseBody = response?.body as Record<string, unknown> | undefined;
-  const usageMetadata = responseBody?.usageMetadata as Record<string, unknown> | undefined;  if (usageMetadata?.cachedContentTokenCount && typeof usageMetadata.cachedContentTokenCount === 'number' && 
-      usageMetadata.totalTokenCount && typeof usageMetadata.totalTokenCount === 'number') {
-    const cacheHitRate = (usageMetadata.cachedContentTokenCount / usageMetadata.totalTokenCount * 100).toFixed(2);
+  const usage = getCacheUsage(response);
+  if (usage) {
+    const cacheHitRate = (usage.cachedTokens / usage.totalTokens * 100).toFixed(2);
     
     customLogger.info('Cache hit detected', {
-      cachedTokens: usageMetadata.cachedContentTokenCount,
-      totalTokens: usageMetadata.totalTokenCount,
-      promptTokens: usageMetadata.promptTokenCount,
-      candidatesTokens: usageMetadata.candidatesTokenCount,
+      ...usage,
       cacheHitRate: `${cacheHitRate}%`,
       costSavings: `~${cacheHitRate}%`
     });
   }
 }
 
+/**
+ * Cached token counts from the raw Gemini response body, or null when nothing was served from cache
+ * @param response - Response object from generateText
+ */
+export function getCacheUsage(response?: Record<string, unknown>) {
+  const responseBody = response?.body as Record<string, unknown> | undefined;
+  const usageMetadata = responseBody?.usageMetadata as Record<string, unknown> | undefined;
+  if (usageMetadata?.cachedContentTokenCount && typeof usageMetadata.cachedContentTokenCount === 'number' && 
+      usageMetadata.totalTokenCount && typeof usageMetadata.totalTokenCount === 'number') {
+    return {
+      cachedTokens: usageMetadata.cachedContentTokenCount,
+      totalTokens: usageMetadata.totalTokenCount,
+      promptTokens: usageMetadata.promptTokenCount as number | undefined,
+      candidatesTokens: usageMetadata.candidatesTokenCount as number | undefined
+    };
+  }
+  return null;
+}
+
+/**
+ * Cached prompt tokens of a generateText or streamText result, summed over its steps.
+ * Works for streamed runs, whose raw response body is not kept.
+ * @param result - Result (or onFinish event) of generateText or streamText
+ */
+export function getCachedTokenCount(result?: {
+  providerMetadata?: Record<string, Record<string, unknown>>;
+  steps?: Array<{ providerMetadata?: Record<string, Record<string, unknown>> }>;
+}): number {
+  const count = (metadata?: Record<string, Record<string, unknown>>) => {
+    const cached = metadata?.google?.cachedContentTokenCount;
+    return typeof cached === 'number' ? cached : 0;
+  };
+  if (result?.steps && result.steps.length > 0) {
+    return result.steps.reduce((total, step) => total + count(step.providerMetadata), 0);
+  }
+  return count(result?.providerMetadata);
+}
+
 /**
  * Enhanced search grounding utility with metadata extraction
  * @param prompt - Search query or prompt
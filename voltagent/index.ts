@@ -2,15 +2,13 @@ import { VoltAgent, VoltAgentExporter } from "@voltagent/core";
 import { NodeSDK } from "@opentelemetry/sdk-node";
 import { getNodeAutoInstrumentations } from "@opentelemetry/auto-instrumentations-node";
 import { ConsoleSpanExporter } from "@opentelemetry/sdk-trace-base";
-import { mathAgent } from "./agents/mathAgent";
-import { fileAgent } from "./agents/fileAgent";
-import { webAgent } from "./agents/webAgent";
-import { devAgent } from "./agents/devAgent";
-import { dataAgent } from "./agents/dataAgent";
-import { commsAgent } from "./agents/commsAgent";
-import { memoryAgent } from "./agents/memoryAgent";
-import { supervisorAgent } from "./agents/supervisorAgent";
+import { createAgents } from "./agents";
 import { LangfuseExporter } from "@voltagent/langfuse-exporter";
+import { contextService } from "./services/context";
+import { contextStore } from "./services/contextStore";
+import { mcpToolsService } from "./services/mcp";
+import { redactionService } from "./services/redaction";
+import { metricsService, METRICS_CONTENT_TYPE } from "./services/metrics";
 
 
 const voltagentPublicKey = process.env.PK;
@@ -25,41 +23,57 @@ if (!voltagentSecretKey) {
   throw new Error("SK environment variable is required");
 }
 
-new VoltAgent({
-  agents: {
-    math: mathAgent,
-    file: fileAgent,
-    web: webAgent,
-    dev: devAgent,
-    data: dataAgent,
-    comms: commsAgent,
-    memory: memoryAgent,
-    supervisor: supervisorAgent,
-  },
-  server: {
-    autoStart: true,
-    enableSwaggerUI: true,
-    port: 3141,
-  },
-  telemetryExporter: [
-    new VoltAgentExporter({
-      publicKey: voltagentPublicKey,
-      secretKey: voltagentSecretKey,
-      baseUrl: "https://api.voltagent.dev", // Default URL for the VoltAgent cloud service
-    }),
-    new LangfuseExporter({
-      publicKey: process.env.LANGFUSE_PUBLIC_KEY,
-      secretKey: process.env.LANGFUSE_SECRET_KEY,
-      baseUrl: process.env.LANGFUSE_BASE_URL,
-      debug: true,
-    })
-  ],
-});
+// Drop expired persisted context entries in the background
+contextStore.startPruning();
 
+// Pick up edits to the MCP server configuration file without a restart
+mcpToolsService.watchConfig();
+
+// Start the server once MCP tools are loaded so every agent starts with its tools
+createAgents()
+  .then(({ agents }) => {
+    // Give every agent run served by the VoltAgent server its own context scope
+    Object.values(agents).forEach((agent) => contextService.scopeAgentRuns(agent));
+
+    new VoltAgent({
+      agents,
+      server: {
+        autoStart: true,
+        enableSwaggerUI: true,
+        port: 3141,
+        customEndpoints: [
+          {
+            path: "/metrics",
+            method: "get",
+            description: "Prometheus metrics for agent runs, delegations, tools, retrieval and tokens",
+            handler: () => new Response(metricsService.render(), { headers: { "Content-Type": METRICS_CONTENT_TYPE } }),
+          },
+        ],
+      },
+      telemetryExporter: [
+        // Exported history, steps and spans are redacted before they leave the process
+        redactionService.wrapVoltAgentExporter(new VoltAgentExporter({
+          publicKey: voltagentPublicKey,
+          secretKey: voltagentSecretKey,
+          baseUrl: "https://api.voltagent.dev", // Default URL for the VoltAgent cloud service
+        })),
+        redactionService.wrapSpanExporter(new LangfuseExporter({
+          publicKey: process.env.LANGFUSE_PUBLIC_KEY,
+          secretKey: process.env.LANGFUSE_SECRET_KEY,
+          baseUrl: process.env.LANGFUSE_BASE_URL,
+          debug: true,
+        }))
+      ],
+    });
+  })
+  .catch((error) => {
+    console.error("❌ Failed to start VoltAgent:", error);
+    process.exit(1);
+  });
 
  // Initialize OpenTelemetry SDK
     const sdk = new NodeSDK({
-      traceExporter: new ConsoleSpanExporter(),
+      traceExporter: redactionService.wrapSpanExporter(new ConsoleSpanExporter()),
       instrumentations: [getNodeAutoInstrumentations()],
     });
     
@@ -0,0 +1,27 @@
+/**
+ * Project MCP server entry point
+ *
+ *   tsx voltagent/mcpServer.ts          # stdio (editors, local agent runtimes)
+ *   tsx voltagent/mcpServer.ts --http   # streamable HTTP on MCP_SERVER_HOST:MCP_SERVER_PORT (default 127.0.0.1:3142), needs MCP_SERVER_TOKEN
+ */
+const useHttp = process.argv.includes("--http");
+
+// stdout carries the stdio protocol, so everything else (including service logs) goes to stderr
+if (!useHttp) {
+  console.log = console.error;
+  console.info = console.error;
+  console.debug = console.error;
+}
+
+import("./services/projectMcpServer")
+  .then(async ({ startProjectMCPServerHttp, startProjectMCPServerStdio }) => {
+    if (useHttp) {
+      await startProjectMCPServerHttp();
+    } else {
+      await startProjectMCPServerStdio();
+    }
+  })
+  .catch((error) => {
+    console.error("❌ Failed to start project MCP server:", error);
+    process.exit(1);
+  });
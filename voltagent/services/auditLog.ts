@@ -0,0 +1,219 @@
+/* global console */
+/**
+ * Tool Audit Log
+ * Append-only LibSQL log of every tool invocation, written where each tool call runs
+ */
+import type { Client } from "@libsql/client";
+import { databaseClient } from "./database";
+import { redactionService, SECRET_KEY_PATTERN } from "./redaction";
+import type { ToolCallRecord } from "./toolTimeline";
+
+/**
+ * One tool invocation as stored in the audit log
+ */
+export interface AuditEntry {
+  id: number;
+  timestamp: string;
+  agentName: string;
+  toolName: string;
+  toolCallId?: string;
+  /** Arguments with secret-looking values redacted */
+  args: unknown;
+  resultSummary?: string;
+  durationMs: number;
+  error?: string;
+  operationId?: string;
+  userId?: string;
+  conversationId?: string;
+}
+
+export type NewAuditEntry = Omit<AuditEntry, "id" | "timestamp"> & { timestamp?: string };
+
+/**
+ * Filters for querying the audit log; time bounds are inclusive ISO timestamps
+ */
+export interface AuditQuery {
+  from?: string;
+  to?: string;
+  agentName?: string;
+  toolName?: string;
+  userId?: string;
+  conversationId?: string;
+  limit?: number;
+  offset?: number;
+}
+
+const MAX_STRING_LENGTH = 2000;
+const MAX_SUMMARY_LENGTH = 500;
+
+/**
+ * Copy of tool arguments with secret-looking keys masked, secrets and PII redacted and long strings shortened
+ */
+export function redactArgs(value: unknown): unknown {
+  if (typeof value === "string") {
+    const text = redactionService.redactText(value);
+    return text.length > MAX_STRING_LENGTH ? `${text.slice(0, MAX_STRING_LENGTH)}… (${text.length} chars)` : text;
+  }
+  if (Array.isArray(value)) {
+    return value.map(redactArgs);
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, SECRET_KEY_PATTERN.test(key) ? "[REDACTED]" : redactArgs(item)]),
+    );
+  }
+  return value;
+}
+
+/**
+ * Short text form of a tool result
+ */
+export function summarizeResult(output: unknown): string | undefined {
+  if (output === undefined) {
+    return undefined;
+  }
+  const text = typeof output === "string" ? redactionService.redactText(output) : redactionService.stringify(output);
+  return text.length > MAX_SUMMARY_LENGTH ? `${text.slice(0, MAX_SUMMARY_LENGTH)}…` : text;
+}
+
+/**
+ * LibSQL-backed audit log. Triggers reject updates and deletes, so entries can only be added.
+ */
+export class AuditLog {
+  private client: Client;
+  private tableName: string;
+  private ready?: Promise<void>;
+
+  constructor(options: { client?: Client; tablePrefix?: string } = {}) {
+    this.client = options.client ?? databaseClient;
+    this.tableName = `${options.tablePrefix ?? "voltagent"}_tool_audit`;
+  }
+
+  /**
+   * Create the audit table, its indexes and the append-only triggers on first use
+   */
+  private ensureTable(): Promise<void> {
+    if (!this.ready) {
+      this.ready = this.client.batch([
+        `CREATE TABLE IF NOT EXISTS ${this.tableName} (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          timestamp TEXT NOT NULL,
+          agent_name TEXT NOT NULL,
+          tool_name TEXT NOT NULL,
+          tool_call_id TEXT,
+          args TEXT NOT NULL,
+          result_summary TEXT,
+          duration_ms INTEGER NOT NULL,
+          error TEXT,
+          operation_id TEXT,
+          user_id TEXT,
+          conversation_id TEXT
+        )`,
+        `CREATE INDEX IF NOT EXISTS idx_${this.tableName}_timestamp ON ${this.tableName}(timestamp)`,
+        `CREATE INDEX IF NOT EXISTS idx_${this.tableName}_user ON ${this.tableName}(user_id, timestamp)`,
+        `CREATE TRIGGER IF NOT EXISTS ${this.tableName}_no_update BEFORE UPDATE ON ${this.tableName}
+          BEGIN SELECT RAISE(ABORT, 'tool audit log is append-only'); END`,
+        `CREATE TRIGGER IF NOT EXISTS ${this.tableName}_no_delete BEFORE DELETE ON ${this.tableName}
+          BEGIN SELECT RAISE(ABORT, 'tool audit log is append-only'); END`,
+      ], "write").then(() => undefined).catch((error) => {
+        this.ready = undefined;
+        throw error;
+      });
+    }
+    return this.ready;
+  }
+
+  /**
+   * Add an entry
+   */
+  async append(entry: NewAuditEntry): Promise<void> {
+    await this.ensureTable();
+    await this.client.execute({
+      sql: `INSERT INTO ${this.tableName}
+              (timestamp, agent_name, tool_name, tool_call_id, args, result_summary, duration_ms, error, operation_id, user_id, conversation_id)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      args: [
+        entry.timestamp ?? new Date().toISOString(),
+        entry.agentName,
+        entry.toolName,
+        entry.toolCallId ?? null,
+        JSON.stringify(entry.args ?? null),
+        entry.resultSummary ?? null,
+        Math.round(entry.durationMs),
+        entry.error ?? null,
+        entry.operationId ?? null,
+        entry.userId ?? null,
+        entry.conversationId ?? null,
+      ],
+    });
+  }
+
+  /**
+   * Entries matching the filters, newest first
+   */
+  async query(filter: AuditQuery = {}): Promise<AuditEntry[]> {
+    await this.ensureTable();
+    const conditions: string[] = [];
+    const args: Array<string | number> = [];
+    const add = (condition: string, value: string | undefined) => {
+      if (value) {
+        conditions.push(condition);
+        args.push(value);
+      }
+    };
+    add("timestamp >= ?", filter.from);
+    add("timestamp <= ?", filter.to);
+    add("agent_name = ?", filter.agentName);
+    add("tool_name = ?", filter.toolName);
+    add("user_id = ?", filter.userId);
+    add("conversation_id = ?", filter.conversationId);
+    args.push(Math.min(Math.max(filter.limit ?? 100, 1), 1000), Math.max(filter.offset ?? 0, 0));
+
+    const result = await this.client.execute({
+      sql: `SELECT * FROM ${this.tableName}
+            ${conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : ""}
+            ORDER BY timestamp DESC, id DESC
+            LIMIT ? OFFSET ?`,
+      args,
+    });
+    const optional = (value: unknown) => (value === null || value === undefined ? undefined : String(value));
+    return result.rows.map((row) => ({
+      id: Number(row.id),
+      timestamp: String(row.timestamp),
+      agentName: String(row.agent_name),
+      toolName: String(row.tool_name),
+      toolCallId: optional(row.tool_call_id),
+      args: JSON.parse(String(row.args)),
+      resultSummary: optional(row.result_summary),
+      durationMs: Number(row.duration_ms),
+      error: optional(row.error),
+      operationId: optional(row.operation_id),
+      userId: optional(row.user_id),
+      conversationId: optional(row.conversation_id),
+    }));
+  }
+}
+
+/**
+ * Global audit log instance
+ */
+export const auditLog = new AuditLog();
+
+/**
+ * Write the audit entry of a finished tool call with the arguments and timing captured
+ * while it ran. Failures are logged and never break the run.
+ */
+export function auditToolCall(call: ToolCallRecord, result: unknown): void {
+  auditLog.append({
+    agentName: call.agentName,
+    toolName: call.toolName,
+    toolCallId: call.toolCallId.startsWith("untracked-") ? undefined : call.toolCallId,
+    args: redactArgs(call.args),
+    resultSummary: call.error ? undefined : summarizeResult(result),
+    durationMs: call.durationMs ?? 0,
+    error: call.error,
+    operationId: call.operationId,
+    userId: call.userId,
+    conversationId: call.conversationId,
+  }).catch((error) => console.error("❌ Failed to write tool audit entry:", error));
+}
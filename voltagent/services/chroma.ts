@@ -4,6 +4,8 @@ import { ChromaClient } from "chromadb";
 import { GoogleGeminiEmbeddingFunction } from "@chroma-core/google-gemini";
 import { promises as fs } from "fs";
 import { pipeline } from "chromadb-default-embed"; // GG
+import { metricsService } from "./metrics";
+import { appendReference } from "./contextKeys";
 
 // Initialize Chroma client
 const chromaClient = new ChromaClient({
@@ -131,6 +133,7 @@ type ContentPart = { type: "text"; text: string } | { type: string; [key: string
 export class ChromaRetriever extends BaseRetriever {
   constructor(options?: { toolName?: string; toolDescription?: string }) {
     super(options);
+    metricsService.instrumentRetriever(this, "chroma");
   }
 
   /**
@@ -153,14 +156,16 @@ export class ChromaRetriever extends BaseRetriever {
     }
     const results: ChromaDoc[] = await retrieveDocuments(searchText, 3);
     // Add references to userContext if available
-    if (options.userContext && results.length > 0) {
-      const references = results.map((doc, index) => ({
-        id: doc.id,
-        title: doc.metadata.title ?? `Document ${index + 1}`,
-        source: doc.metadata.source ?? "Chroma Knowledge Base",
-        distance: doc.distance,
-      }));
-      options.userContext.set("references", references);
+    if (options.userContext) {
+      const userContext = options.userContext;
+      results.forEach((doc, index) => {
+        appendReference(userContext, "chroma", {
+          id: doc.id,
+          title: doc.metadata.title ?? `Document ${index + 1}`,
+          source: doc.metadata.source ?? "Chroma Knowledge Base",
+          distance: doc.distance,
+        });
+      });
     }
     if (results.length === 0) {
       return "No relevant documents found in the knowledge base.";
@@ -2,6 +2,17 @@
  * Context Service for VoltAgent
  * Provides user context management and cross-agent data sharing
  */
+import { AsyncLocalStorage } from "node:async_hooks";
+import { contextStore, type ContextSnapshot, type ContextStore } from "./contextStore";
+import {
+  observeContextWrites,
+  validateContextValue,
+  type ContextValueFor,
+  type ConversationEntry,
+  type HandoffEntry,
+  type OperationResultEntry,
+  type ReferenceEntry
+} from "./contextKeys";
 
 /**
  * Simple user context implementation for maintaining state across agent interactions
@@ -14,28 +25,168 @@ class UserContextMap<T = unknown> extends Map<string, T> {
 
 /**
  * User Context for maintaining state across agent interactions
- * This context flows through the agent lifecycle and between agents
+ * Process-wide fallback used only when no request scope is active
  */
 export const userContext = new UserContextMap<unknown>();
 
+/**
+ * Async-local storage holding the context map of the active request or agent run
+ */
+const contextStorage = new AsyncLocalStorage<UserContextMap<unknown>>();
+
+/**
+ * Agent methods that start a run and should get their own context scope
+ */
+const SCOPED_AGENT_METHODS = ["generateText", "streamText", "generateObject", "streamObject"] as const;
+
+/**
+ * Change event emitted to context subscribers
+ */
+export interface ContextChangeEvent<K extends string = string> {
+  key: K;
+  value: ContextValueFor<K> | undefined;
+  previousValue: ContextValueFor<K> | undefined;
+  sessionId?: string;
+  source: "set" | "delete" | "restore";
+}
+
+export type ContextListener<K extends string = string> = (event: ContextChangeEvent<K>) => void;
+
 /**
  * Context Service for managing user sessions and cross-agent data
+ * Every read and write resolves the context map of the active scope automatically
  */
 export class ContextService {
-  private context = userContext;
+  private fallbackContext = userContext;
+  private store: ContextStore | null;
+  private listeners = new Map<string, Set<ContextListener>>();
+
+  constructor(store: ContextStore | null = contextStore) {
+    this.store = store;
+  }
+
+  /**
+   * Context map of the active scope, or the process-wide fallback
+   */
+  private get context(): UserContextMap<unknown> {
+    return contextStorage.getStore() ?? this.fallbackContext;
+  }
+
+  /**
+   * Run a callback inside a fresh request-scoped context
+   */
+  run<R>(callback: () => R, initialValues?: Record<string, unknown>): R {
+    const scope = new UserContextMap<unknown>();
+    if (initialValues) {
+      Object.entries(initialValues).forEach(([key, value]) => {
+        scope.set(key, value);
+      });
+    }
+    return contextStorage.run(scope, callback);
+  }
+
+  /**
+   * Check if a request scope is active
+   */
+  isScoped(): boolean {
+    return contextStorage.getStore() !== undefined;
+  }
+
+  /**
+   * Wrap the run methods of an agent so each top-level run gets its own scope.
+   * Nested runs (e.g. sub-agent delegation) reuse the scope of their caller.
+   */
+  scopeAgentRuns<T extends object>(agent: T): T {
+    const target = agent as unknown as Record<string, unknown>;
+    for (const method of SCOPED_AGENT_METHODS) {
+      const original = target[method];
+      if (typeof original !== "function") continue;
+      target[method] = (...args: unknown[]) => {
+        const invoke = () => (original as (...params: unknown[]) => unknown).apply(agent, args);
+        return this.isScoped() ? invoke() : this.run(invoke);
+      };
+    }
+    return agent;
+  }
 
   /**
    * Set a value in the user context
+   * Values of registered keys are validated against their schema
    */
-  set<T = unknown>(key: string, value: T): void {
+  set<K extends string>(key: K, value: ContextValueFor<K>): void {
+    validateContextValue(key, value);
+    const previousValue = this.context.get(key);
     this.context.set(key, value);
+    this.persist(key, value);
+    this.notify(key, value, previousValue, "set");
+  }
+
+  /**
+   * Subscribe to changes of a key ("*" for every key). Returns an unsubscribe function.
+   * Listeners are process-wide; use `event.sessionId` to filter by session.
+   */
+  subscribe<K extends string>(key: K | "*", listener: ContextListener<K>): () => void {
+    const listeners = this.listeners.get(key) ?? new Set<ContextListener>();
+    listeners.add(listener as ContextListener);
+    this.listeners.set(key, listeners);
+    return () => {
+      listeners.delete(listener as ContextListener);
+      if (listeners.size === 0) {
+        this.listeners.delete(key);
+      }
+    };
+  }
+
+  /**
+   * Notify subscribers of a write made to a raw context map (e.g. a VoltAgent operation userContext)
+   */
+  reportWrite(key: string, value: unknown, previousValue: unknown): void {
+    this.notify(key, value, previousValue, "set");
+  }
+
+  /**
+   * Emit a change event to key and wildcard subscribers
+   */
+  private notify(key: string, value: unknown, previousValue: unknown, source: ContextChangeEvent["source"]): void {
+    const targets = [...(this.listeners.get(key) ?? []), ...(this.listeners.get("*") ?? [])];
+    if (targets.length === 0) {
+      return;
+    }
+    const sessionId = this.context.get("sessionId");
+    const event: ContextChangeEvent = {
+      key,
+      value,
+      previousValue,
+      sessionId: typeof sessionId === "string" ? sessionId : undefined,
+      source,
+    };
+    for (const listener of targets) {
+      try {
+        listener(event);
+      } catch (error) {
+        globalThis.console?.error(`[ContextService] Listener for "${key}" failed:`, error);
+      }
+    }
+  }
+
+  /**
+   * Write a value through to the persistent store when a session is active
+   */
+  private persist(key: string, value: unknown): void {
+    const sessionId = this.context.get("sessionId");
+    if (!this.store || typeof sessionId !== "string") {
+      return;
+    }
+    this.store.set(sessionId, key, value).catch((error) => {
+      globalThis.console?.error(`[ContextService] Failed to persist "${key}" for session ${sessionId}:`, error);
+    });
   }
 
   /**
    * Get a value from the user context
    */
-  get<T = unknown>(key: string): T | undefined {
-    return this.context.get(key) as T | undefined;
+  get<K extends string>(key: K): ContextValueFor<K> | undefined {
+    return this.context.get(key) as ContextValueFor<K> | undefined;
   }
 
   /**
@@ -49,11 +200,22 @@ export class ContextService {
    * Delete a key from the context
    */
   delete(key: string): boolean {
-    return this.context.delete(key);
+    const sessionId = this.context.get("sessionId");
+    if (this.store && typeof sessionId === "string") {
+      this.store.delete(sessionId, key).catch((error) => {
+        globalThis.console?.error(`[ContextService] Failed to delete "${key}" for session ${sessionId}:`, error);
+      });
+    }
+    const previousValue = this.context.get(key);
+    const deleted = this.context.delete(key);
+    if (deleted) {
+      this.notify(key, undefined, previousValue, "delete");
+    }
+    return deleted;
   }
 
   /**
-   * Clear all context data
+   * Clear all context data in the active scope (persisted data is kept)
    */
   clear() {
     this.context.clear();
@@ -73,9 +235,12 @@ export class ContextService {
    * Initialize session context with user data
    */
   initializeSession(userId: string, sessionId: string, metadata?: Record<string, unknown>) {
-    this.set("userId", userId);
+    // sessionId goes first so every following write is persisted under it
     this.set("sessionId", sessionId);
-    this.set("sessionStartTime", new Date().toISOString());
+    this.set("userId", userId);
+    if (!this.has("sessionStartTime")) {
+      this.set("sessionStartTime", new Date().toISOString());
+    }
     
     if (metadata) {
       Object.entries(metadata).forEach(([key, value]) => {
@@ -84,6 +249,68 @@ export class ContextService {
     }
   }
 
+  /**
+   * Whether a user may continue a session: nothing is persisted for it yet, or it was persisted
+   * for this user. Sessions with data but no known owner are refused.
+   */
+  async canAccessSession(sessionId: string, userId: string): Promise<boolean> {
+    if (!this.store) {
+      return true;
+    }
+    try {
+      const { values } = await this.store.snapshot(sessionId);
+      return Object.keys(values).length === 0 || values.userId === userId;
+    } catch (error) {
+      globalThis.console?.error(`[ContextService] Failed to read the owner of session ${sessionId}:`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Load a persisted session into the active scope, returning the number of keys restored.
+   * With a userId, sessions persisted for a different or unknown user are not restored.
+   */
+  async restoreSession(sessionId: string, userId?: string): Promise<number> {
+    if (!this.store) {
+      return 0;
+    }
+    if (userId !== undefined && !(await this.canAccessSession(sessionId, userId))) {
+      globalThis.console?.warn(`[ContextService] Not restoring session ${sessionId}: it does not belong to this user`);
+      return 0;
+    }
+    try {
+      const snapshot = await this.store.snapshot(sessionId);
+      let restored = 0;
+      Object.entries(snapshot.values).forEach(([key, value]) => {
+        try {
+          validateContextValue(key, value);
+        } catch (error) {
+          globalThis.console?.warn(`[ContextService] Skipping persisted "${key}" for session ${sessionId}:`, error);
+          return;
+        }
+        const previousValue = this.context.get(key);
+        this.context.set(key, value);
+        this.notify(key, value, previousValue, "restore");
+        restored++;
+      });
+      return restored;
+    } catch (error) {
+      globalThis.console?.error(`[ContextService] Failed to restore session ${sessionId}:`, error);
+      return 0;
+    }
+  }
+
+  /**
+   * Take a snapshot of the persisted state of the active session
+   */
+  async snapshotSession(): Promise<ContextSnapshot | undefined> {
+    const sessionId = this.context.get("sessionId");
+    if (!this.store || typeof sessionId !== "string") {
+      return undefined;
+    }
+    return this.store.snapshot(sessionId);
+  }
+
   /**
    * Get session information
    */
@@ -113,18 +340,11 @@ export class ContextService {
    * Track agent handoffs and delegation flow
    */
   trackHandoff(fromAgent: string, toAgent: string, reason?: string) {
-    type HandoffEntry = {
-      from: string;
-      to: string;
-      reason?: string;
-      timestamp: string;
-    };
-    let handoffs = this.get("handoffs") as HandoffEntry[] | undefined;
+    let handoffs: HandoffEntry[] | undefined = this.get("handoffs");
     if (!Array.isArray(handoffs)) {
       handoffs = [];
     }
-    // Ensure handoffs is typed as an array before push
-    (handoffs as HandoffEntry[]).push({
+    handoffs.push({
       from: fromAgent,
       to: toAgent,
       reason,
@@ -137,7 +357,7 @@ export class ContextService {
    * Store operation results for cross-agent access
    */
   storeResult(operationId: string, result: unknown, agentName: string) {
-    const results: Record<string, unknown> = this.get("operationResults") || {};
+    const results: Record<string, OperationResultEntry> = this.get("operationResults") || {};
     results[operationId] = {
       result,
       agentName,
@@ -149,11 +369,27 @@ export class ContextService {
   /**
    * Get result from a previous operation
    */
-  getResult(operationId: string) {
-    const results: Record<string, unknown> = this.get("operationResults") || {};
+  getResult(operationId: string): OperationResultEntry | undefined {
+    const results: Record<string, OperationResultEntry> = this.get("operationResults") || {};
     return results[operationId];
   }
 
+  /**
+   * Get result from a previous operation, falling back to the persistent store
+   */
+  async loadResult(operationId: string): Promise<OperationResultEntry | undefined> {
+    const cached = this.getResult(operationId);
+    const sessionId = this.context.get("sessionId");
+    if (cached !== undefined || !this.store || typeof sessionId !== "string") {
+      return cached;
+    }
+    const results = await this.store.get<Record<string, OperationResultEntry>>(sessionId, "operationResults");
+    if (results) {
+      this.context.set("operationResults", results);
+    }
+    return results?.[operationId];
+  }
+
   /**
    * Set user preferences
    */
@@ -183,6 +419,9 @@ export class ContextService {
  */
 export const contextService = new ContextService();
 
+// Hooks, tools and retrievers write to the operation userContext; let subscribers see those writes too
+observeContextWrites((key, value, previousValue) => contextService.reportWrite(key, value, previousValue));
+
 /**
  * Helper functions for common context operations
  */
@@ -200,12 +439,7 @@ export const contextHelpers = {
    * Track conversation flow
    */
   trackConversation: (conversationId: string, message: string, role: 'user' | 'assistant') => {
-    type ConversationEntry = {
-      message: string;
-      role: 'user' | 'assistant';
-      timestamp: string;
-    };
-    const conversations = contextService.get("conversations") as Record<string, ConversationEntry[]> || {};
+    const conversations = contextService.get("conversations") || {};
     if (!conversations[conversationId]) {
       conversations[conversationId] = [];
     }
@@ -222,13 +456,8 @@ export const contextHelpers = {
   /**
    * Get conversation history
    */
-  getConversation: (conversationId: string) => {
-    type ConversationEntry = {
-      message: string;
-      role: 'user' | 'assistant';
-      timestamp: string;
-    };
-    const conversations = contextService.get("conversations") as Record<string, ConversationEntry[]> || {};
+  getConversation: (conversationId: string): ConversationEntry[] => {
+    const conversations = contextService.get("conversations") || {};
     return conversations[conversationId] || [];
   },
 
@@ -236,11 +465,7 @@ export const contextHelpers = {
    * Store file or resource references
    */
   storeReference: (type: string, reference: unknown) => {
-    type ReferenceEntry = {
-      [key: string]: unknown;
-      timestamp: string;
-    };
-    const refs = contextService.get("references") as Record<string, ReferenceEntry[]> || {};
+    const refs = contextService.get("references") || {};
     if (!refs[type]) {
       refs[type] = [];
     }
@@ -256,12 +481,8 @@ export const contextHelpers = {
   /**
    * Get references by type
    */
-  getReferences: (type: string) => {
-    type ReferenceEntry = {
-      [key: string]: unknown;
-      timestamp: string;
-    };
-    const refs = contextService.get("references") as Record<string, ReferenceEntry[]> || {};
+  getReferences: (type: string): ReferenceEntry[] => {
+    const refs = contextService.get("references") || {};
     return refs[type] || [];
   }
 };
@@ -0,0 +1,277 @@
+/**
+ * Context Key Registry for VoltAgent
+ * Typed keys and zod schemas shared by ContextService, hooks and retrievers
+ */
+import { z } from "zod";
+
+/**
+ * Agent handoff / delegation entry
+ */
+export const handoffEntrySchema = z.object({
+  from: z.string(),
+  to: z.string(),
+  reason: z.string().optional(),
+  opId: z.string().optional(),
+  timestamp: z.string(),
+});
+
+/**
+ * Stored operation result entry
+ */
+export const operationResultEntrySchema = z.object({
+  result: z.unknown(),
+  agentName: z.string(),
+  timestamp: z.string(),
+});
+
+/**
+ * Conversation message entry
+ */
+export const conversationEntrySchema = z.object({
+  message: z.string(),
+  role: z.enum(["user", "assistant"]),
+  timestamp: z.string(),
+});
+
+/**
+ * File, document or memory reference entry
+ */
+export const referenceEntrySchema = z.object({
+  timestamp: z.string(),
+}).catchall(z.unknown());
+
+/**
+ * Outcome of a policy-controlled MCP tool call, waiting to be picked up by onToolEnd
+ */
+export const toolCallOutcomeSchema = z.object({
+  toolName: z.string(),
+  serverKey: z.string(),
+  toolCallId: z.string().optional(),
+  status: z.enum(["success", "error", "timeout", "circuit_open", "denied", "rejected"]),
+  attempts: z.number(),
+  durationMs: z.number(),
+  timeoutMs: z.number(),
+  circuitState: z.enum(["closed", "open", "half_open"]),
+  cached: z.boolean().optional(),
+  approvedBy: z.string().optional(),
+  error: z.string().optional(),
+  timestamp: z.string(),
+});
+
+/**
+ * Tool an agent acquired through tool discovery for the current run
+ */
+export const acquiredToolSchema = z.object({
+  toolName: z.string(),
+  serverKey: z.string(),
+  category: z.string(),
+  agentName: z.string(),
+  timestamp: z.string(),
+});
+
+/**
+ * MCP tool call rejected by an agent's tool access policy
+ */
+export const toolPolicyViolationSchema = z.object({
+  agentName: z.string(),
+  toolName: z.string(),
+  reason: z.string(),
+  timestamp: z.string(),
+});
+
+/**
+ * User decision on a tool call that required approval
+ */
+export const toolApprovalEntrySchema = z.object({
+  requestId: z.string(),
+  toolName: z.string(),
+  agentName: z.string().optional(),
+  approved: z.boolean(),
+  decidedBy: z.string(),
+  reason: z.string().optional(),
+  timestamp: z.string(),
+});
+
+/**
+ * Registry of well-known context keys and the shape of their values
+ */
+export const contextKeySchemas = {
+  userId: z.string(),
+  sessionId: z.string(),
+  sessionStartTime: z.string(),
+  conversationId: z.string(),
+  currentAgent: z.string(),
+  currentOperation: z.string(),
+  lastAgentChange: z.string(),
+  operationId: z.string(),
+  handoffs: z.array(handoffEntrySchema),
+  operationResults: z.record(operationResultEntrySchema),
+  userPreferences: z.record(z.unknown()),
+  conversations: z.record(z.array(conversationEntrySchema)),
+  references: z.record(z.array(referenceEntrySchema)),
+  toolCallOutcomes: z.array(toolCallOutcomeSchema),
+  acquiredTools: z.array(acquiredToolSchema),
+  toolPolicyViolations: z.array(toolPolicyViolationSchema),
+  toolApprovals: z.array(toolApprovalEntrySchema),
+} as const;
+
+export type ContextKey = keyof typeof contextKeySchemas;
+export type ContextValue<K extends ContextKey> = z.infer<(typeof contextKeySchemas)[K]>;
+
+/**
+ * Value type for a key: typed for registered keys, `unknown` for free-form keys
+ */
+export type ContextValueFor<K extends string> = K extends ContextKey ? ContextValue<K> : unknown;
+
+export type HandoffEntry = z.infer<typeof handoffEntrySchema>;
+export type OperationResultEntry = z.infer<typeof operationResultEntrySchema>;
+export type ConversationEntry = z.infer<typeof conversationEntrySchema>;
+export type ReferenceEntry = z.infer<typeof referenceEntrySchema>;
+export type ToolCallOutcome = z.infer<typeof toolCallOutcomeSchema>;
+export type AcquiredTool = z.infer<typeof acquiredToolSchema>;
+export type ToolPolicyViolation = z.infer<typeof toolPolicyViolationSchema>;
+export type ToolApprovalEntry = z.infer<typeof toolApprovalEntrySchema>;
+
+/**
+ * Check if a key is part of the registry
+ */
+export function isContextKey(key: string): key is ContextKey {
+  return Object.prototype.hasOwnProperty.call(contextKeySchemas, key);
+}
+
+/**
+ * Validate a value against the schema of a registered key.
+ * Free-form keys are accepted as-is.
+ */
+export function validateContextValue(key: string, value: unknown): void {
+  if (!isContextKey(key)) {
+    return;
+  }
+  const result = contextKeySchemas[key].safeParse(value);
+  if (!result.success) {
+    const issues = result.error.issues
+      .map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`)
+      .join("; ");
+    throw new Error(`Invalid value for context key "${key}": ${issues}`);
+  }
+}
+
+/**
+ * Minimal map interface shared by ContextService scopes and VoltAgent operation userContext
+ */
+type ContextMapLike = {
+  get(key: string): unknown;
+  set(key: string, value: unknown): unknown;
+};
+
+/**
+ * Read a registered key from a raw context map (e.g. a VoltAgent operation userContext)
+ */
+export function readContextValue<K extends ContextKey>(map: ContextMapLike, key: K): ContextValue<K> | undefined {
+  return map.get(key) as ContextValue<K> | undefined;
+}
+
+/**
+ * Receives every write made through writeContextValue
+ */
+export type ContextWriteObserver = (key: string, value: unknown, previousValue: unknown) => void;
+
+let contextWriteObserver: ContextWriteObserver | undefined;
+
+/**
+ * Report raw context map writes to an observer (the context service forwards them to its subscribers)
+ */
+export function observeContextWrites(observer: ContextWriteObserver | undefined): void {
+  contextWriteObserver = observer;
+}
+
+/**
+ * Validate and write a registered key to a raw context map
+ */
+export function writeContextValue<K extends ContextKey>(map: ContextMapLike, key: K, value: ContextValue<K>): void {
+  validateContextValue(key, value);
+  const previousValue = map.get(key);
+  map.set(key, value);
+  contextWriteObserver?.(key, value, previousValue);
+}
+
+/**
+ * Append a handoff entry to a raw context map
+ */
+export function appendHandoff(map: ContextMapLike, entry: Omit<HandoffEntry, "timestamp">): void {
+  const existing = readContextValue(map, "handoffs");
+  const handoffs = Array.isArray(existing) ? existing : [];
+  handoffs.push({ ...entry, timestamp: new Date().toISOString() });
+  writeContextValue(map, "handoffs", handoffs);
+}
+
+/**
+ * Append a reference entry, grouped by type, to a raw context map
+ */
+export function appendReference(map: ContextMapLike, type: string, reference: Record<string, unknown>): void {
+  const existing = readContextValue(map, "references");
+  const refs = existing && typeof existing === "object" && !Array.isArray(existing) ? existing : {};
+  if (!refs[type]) {
+    refs[type] = [];
+  }
+  refs[type].push({ ...reference, timestamp: new Date().toISOString() });
+  writeContextValue(map, "references", refs);
+}
+
+/**
+ * Queue a tool call outcome on a raw context map
+ */
+export function appendToolCallOutcome(map: ContextMapLike, outcome: Omit<ToolCallOutcome, "timestamp">): void {
+  const existing = readContextValue(map, "toolCallOutcomes");
+  const outcomes = Array.isArray(existing) ? existing : [];
+  outcomes.push({ ...outcome, timestamp: new Date().toISOString() });
+  writeContextValue(map, "toolCallOutcomes", outcomes);
+}
+
+/**
+ * Remove and return the queued outcome of a tool call, or the oldest one for the tool
+ */
+export function takeToolCallOutcome(map: ContextMapLike, toolName: string, toolCallId?: string): ToolCallOutcome | undefined {
+  const outcomes = readContextValue(map, "toolCallOutcomes");
+  if (!Array.isArray(outcomes)) {
+    return undefined;
+  }
+  const byId = toolCallId ? outcomes.findIndex((outcome) => outcome.toolCallId === toolCallId) : -1;
+  const index = byId >= 0 ? byId : outcomes.findIndex((outcome) => outcome.toolName === toolName);
+  if (index < 0) {
+    return undefined;
+  }
+  const [outcome] = outcomes.splice(index, 1);
+  writeContextValue(map, "toolCallOutcomes", outcomes);
+  return outcome;
+}
+
+/**
+ * Record a tool acquired through tool discovery on a raw context map
+ */
+export function appendAcquiredTool(map: ContextMapLike, tool: Omit<AcquiredTool, "timestamp">): void {
+  const existing = readContextValue(map, "acquiredTools");
+  const acquired = Array.isArray(existing) ? existing : [];
+  acquired.push({ ...tool, timestamp: new Date().toISOString() });
+  writeContextValue(map, "acquiredTools", acquired);
+}
+
+/**
+ * Record a tool call rejected by an access policy on a raw context map
+ */
+export function appendToolPolicyViolation(map: ContextMapLike, violation: Omit<ToolPolicyViolation, "timestamp">): void {
+  const existing = readContextValue(map, "toolPolicyViolations");
+  const violations = Array.isArray(existing) ? existing : [];
+  violations.push({ ...violation, timestamp: new Date().toISOString() });
+  writeContextValue(map, "toolPolicyViolations", violations);
+}
+
+/**
+ * Record an approval decision on a raw context map
+ */
+export function appendToolApproval(map: ContextMapLike, entry: Omit<ToolApprovalEntry, "timestamp">): void {
+  const existing = readContextValue(map, "toolApprovals");
+  const approvals = Array.isArray(existing) ? existing : [];
+  approvals.push({ ...entry, timestamp: new Date().toISOString() });
+  writeContextValue(map, "toolApprovals", approvals);
+}
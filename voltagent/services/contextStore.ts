@@ -0,0 +1,222 @@
+/* global console */
+/**
+ * Context Store for VoltAgent
+ * Persists ContextService data to LibSQL with per-key TTLs, session snapshots and pruning
+ */
+import type { Client } from "@libsql/client";
+import { databaseClient } from "./database";
+
+/**
+ * Default time-to-live for persisted context keys (24 hours)
+ */
+const DEFAULT_TTL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Per-key TTL overrides in milliseconds. `null` keeps the key until it is deleted.
+ */
+export const CONTEXT_KEY_TTLS: Record<string, number | null> = {
+  // Ownership outlives everything else stored for the session, so it is never left unowned
+  userId: null,
+  sessionId: null,
+  userPreferences: null,
+  references: 7 * DEFAULT_TTL_MS,
+  conversations: 7 * DEFAULT_TTL_MS,
+  operationResults: DEFAULT_TTL_MS,
+  handoffs: DEFAULT_TTL_MS,
+};
+
+/**
+ * Context store configuration options
+ */
+export interface ContextStoreOptions {
+  /** LibSQL client to use (defaults to the shared database client) */
+  client?: Client;
+  /** Prefix for the context table */
+  tablePrefix?: string;
+  /** TTL applied to keys without an entry in `keyTtls` */
+  defaultTtlMs?: number;
+  /** Per-key TTL overrides */
+  keyTtls?: Record<string, number | null>;
+}
+
+/**
+ * Snapshot of every live key stored for one session
+ */
+export interface ContextSnapshot {
+  sessionId: string;
+  values: Record<string, unknown>;
+  takenAt: string;
+}
+
+/**
+ * LibSQL-backed key/value store for session context
+ */
+export class ContextStore {
+  private client: Client;
+  private tableName: string;
+  private defaultTtlMs: number;
+  private keyTtls: Record<string, number | null>;
+  private ready?: Promise<void>;
+  private pruneTimer?: ReturnType<typeof setInterval>;
+
+  constructor(options: ContextStoreOptions = {}) {
+    this.client = options.client ?? databaseClient;
+    this.tableName = `${options.tablePrefix ?? "voltagent"}_context`;
+    this.defaultTtlMs = options.defaultTtlMs ?? DEFAULT_TTL_MS;
+    this.keyTtls = options.keyTtls ?? CONTEXT_KEY_TTLS;
+  }
+
+  /**
+   * Create the context table on first use
+   */
+  private ensureTable(): Promise<void> {
+    if (!this.ready) {
+      this.ready = this.client.batch([
+        `CREATE TABLE IF NOT EXISTS ${this.tableName} (
+          session_id TEXT NOT NULL,
+          key TEXT NOT NULL,
+          value TEXT NOT NULL,
+          expires_at INTEGER,
+          updated_at TEXT NOT NULL,
+          PRIMARY KEY (session_id, key)
+        )`,
+        `CREATE INDEX IF NOT EXISTS idx_${this.tableName}_expires_at ON ${this.tableName}(expires_at)`,
+      ], "write").then(() => undefined).catch((error) => {
+        this.ready = undefined;
+        throw error;
+      });
+    }
+    return this.ready;
+  }
+
+  /**
+   * Resolve the expiry timestamp for a key
+   */
+  private expiresAt(key: string, ttlMs?: number | null): number | null {
+    const ttl = ttlMs !== undefined ? ttlMs : (key in this.keyTtls ? this.keyTtls[key] : this.defaultTtlMs);
+    return ttl === null ? null : Date.now() + ttl;
+  }
+
+  /**
+   * Store a value for a session key
+   */
+  async set(sessionId: string, key: string, value: unknown, ttlMs?: number | null): Promise<void> {
+    await this.ensureTable();
+    await this.client.execute({
+      sql: `INSERT INTO ${this.tableName} (session_id, key, value, expires_at, updated_at)
+            VALUES (?, ?, ?, ?, ?)
+            ON CONFLICT(session_id, key) DO UPDATE SET
+              value = excluded.value,
+              expires_at = excluded.expires_at,
+              updated_at = excluded.updated_at`,
+      args: [sessionId, key, JSON.stringify(value ?? null), this.expiresAt(key, ttlMs), new Date().toISOString()],
+    });
+  }
+
+  /**
+   * Read a live (non-expired) value for a session key
+   */
+  async get<T = unknown>(sessionId: string, key: string): Promise<T | undefined> {
+    await this.ensureTable();
+    const result = await this.client.execute({
+      sql: `SELECT value FROM ${this.tableName}
+            WHERE session_id = ? AND key = ? AND (expires_at IS NULL OR expires_at > ?)`,
+      args: [sessionId, key, Date.now()],
+    });
+    const row = result.rows[0];
+    return row ? JSON.parse(String(row.value)) as T : undefined;
+  }
+
+  /**
+   * Delete a session key
+   */
+  async delete(sessionId: string, key: string): Promise<void> {
+    await this.ensureTable();
+    await this.client.execute({
+      sql: `DELETE FROM ${this.tableName} WHERE session_id = ? AND key = ?`,
+      args: [sessionId, key],
+    });
+  }
+
+  /**
+   * Capture every live key of a session
+   */
+  async snapshot(sessionId: string): Promise<ContextSnapshot> {
+    await this.ensureTable();
+    const result = await this.client.execute({
+      sql: `SELECT key, value FROM ${this.tableName}
+            WHERE session_id = ? AND (expires_at IS NULL OR expires_at > ?)`,
+      args: [sessionId, Date.now()],
+    });
+    const values: Record<string, unknown> = {};
+    for (const row of result.rows) {
+      values[String(row.key)] = JSON.parse(String(row.value));
+    }
+    return { sessionId, values, takenAt: new Date().toISOString() };
+  }
+
+  /**
+   * Replace a session with the values of a snapshot
+   */
+  async restore(snapshot: ContextSnapshot): Promise<void> {
+    await this.clearSession(snapshot.sessionId);
+    for (const [key, value] of Object.entries(snapshot.values)) {
+      await this.set(snapshot.sessionId, key, value);
+    }
+  }
+
+  /**
+   * Remove every key of a session
+   */
+  async clearSession(sessionId: string): Promise<void> {
+    await this.ensureTable();
+    await this.client.execute({
+      sql: `DELETE FROM ${this.tableName} WHERE session_id = ?`,
+      args: [sessionId],
+    });
+  }
+
+  /**
+   * Delete expired keys, returning how many were removed
+   */
+  async prune(): Promise<number> {
+    await this.ensureTable();
+    const result = await this.client.execute({
+      sql: `DELETE FROM ${this.tableName} WHERE expires_at IS NOT NULL AND expires_at <= ?`,
+      args: [Date.now()],
+    });
+    return result.rowsAffected;
+  }
+
+  /**
+   * Periodically prune expired keys (does not keep the process alive)
+   */
+  startPruning(intervalMs = 60 * 60 * 1000): void {
+    this.stopPruning();
+    this.pruneTimer = setInterval(() => {
+      this.prune()
+        .then((removed) => {
+          if (removed > 0) {
+            console.log(`🧹 Pruned ${removed} expired context entries`);
+          }
+        })
+        .catch((error) => console.error("❌ Failed to prune context store:", error));
+    }, intervalMs);
+    this.pruneTimer.unref?.();
+  }
+
+  /**
+   * Stop the pruning job
+   */
+  stopPruning(): void {
+    if (this.pruneTimer) {
+      clearInterval(this.pruneTimer);
+      this.pruneTimer = undefined;
+    }
+  }
+}
+
+/**
+ * Global context store instance
+ */
+export const contextStore = new ContextStore();
@@ -0,0 +1,173 @@
+/* global console */
+/**
+ * Conversation Summaries
+ * Keeps a short summary and title of each conversation in its metadata, so memory
+ * retrieval can search what conversations were about
+ */
+import { generateObject, type LanguageModel } from "ai";
+import type { LibSQLStorage, MemoryMessage } from "@voltagent/core";
+import { z } from "zod";
+import { google, GEMINI_CONFIG } from "../config/googleProvider";
+import { getEnvVar } from "./env";
+import { memoryStorage } from "./memory";
+import { redactionService } from "./redaction";
+import { estimateCost, usageLedger } from "./usageLedger";
+
+/**
+ * Summary fields stored in `conversation.metadata`
+ */
+export interface ConversationSummaryMetadata {
+  summary: string;
+  summaryUpdatedAt: string;
+  /** createdAt of the newest message folded into the summary */
+  summarizedThrough: string;
+  /** Messages folded into the summary so far (older messages may have been pruned from storage) */
+  summarizedMessages: number;
+}
+
+export interface ConversationSummaryOptions {
+  /** Summarize a conversation once it has this many messages. Default CONVERSATION_SUMMARY_FIRST_AT or 4 */
+  firstAfterMessages: number;
+  /** Fold new messages into the summary once this many have arrived. Default CONVERSATION_SUMMARY_EVERY or 10 */
+  resummarizeEvery: number;
+  /** Longest summary kept, in characters */
+  maxSummaryLength: number;
+}
+
+/**
+ * Whether summaries are written after runs (CONVERSATION_SUMMARY_ENABLED, default true)
+ */
+export const conversationSummaryEnabled = getEnvVar("CONVERSATION_SUMMARY_ENABLED", "true")?.toLowerCase() !== "false";
+
+const DEFAULT_OPTIONS: ConversationSummaryOptions = {
+  firstAfterMessages: Number(getEnvVar("CONVERSATION_SUMMARY_FIRST_AT", "4")) || 4,
+  resummarizeEvery: Number(getEnvVar("CONVERSATION_SUMMARY_EVERY", "10")) || 10,
+  maxSummaryLength: 1200,
+};
+
+const SUMMARIZER_NAME = "ConversationSummarizer";
+
+/**
+ * Titles VoltAgent gives new conversations, which a generated title may replace
+ */
+const DEFAULT_TITLE_PATTERN = /^(New Chat\b.*)?$/;
+
+const summarySchema = z.object({
+  title: z.string().describe("Specific title of at most 8 words"),
+  summary: z.string().describe("What the user wanted, what was found or done, and open questions"),
+});
+
+/**
+ * Plain text of a stored message; tool calls and results are left out
+ */
+const messageText = (message: MemoryMessage): string => {
+  if (typeof message.content === "string") {
+    return message.content;
+  }
+  return message.content
+    .map((part) => (part.type === "text" ? part.text : ""))
+    .filter(Boolean)
+    .join("\n");
+};
+
+/**
+ * Writes and updates conversation summaries with a cheap model
+ */
+export class ConversationSummaryService {
+  private options: ConversationSummaryOptions;
+  private inFlight = new Map<string, Promise<ConversationSummaryMetadata | undefined>>();
+
+  constructor(
+    private storage: LibSQLStorage = memoryStorage,
+    private model: LanguageModel = google(getEnvVar("CONVERSATION_SUMMARY_MODEL", GEMINI_CONFIG.MODELS.GEMINI_2_5_FLASH_LITE)),
+    options: Partial<ConversationSummaryOptions> = {},
+  ) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Summary metadata of a conversation, if it has been summarized
+   */
+  async getSummary(conversationId: string): Promise<ConversationSummaryMetadata | undefined> {
+    const conversation = await this.storage.getConversation(conversationId);
+    return typeof conversation?.metadata?.summary === "string"
+      ? conversation.metadata as unknown as ConversationSummaryMetadata
+      : undefined;
+  }
+
+  /**
+   * Summarize the conversation if it crossed a threshold since the last summary (or always
+   * with `force`). Calls for a conversation that is already being summarized share that run.
+   */
+  summarize(conversationId: string, options: { force?: boolean } = {}): Promise<ConversationSummaryMetadata | undefined> {
+    let running = this.inFlight.get(conversationId);
+    if (!running) {
+      running = this.update(conversationId, options.force ?? false).finally(() => this.inFlight.delete(conversationId));
+      this.inFlight.set(conversationId, running);
+    }
+    return running;
+  }
+
+  private async update(conversationId: string, force: boolean): Promise<ConversationSummaryMetadata | undefined> {
+    const conversation = await this.storage.getConversation(conversationId);
+    if (!conversation) {
+      return undefined;
+    }
+    const previous = typeof conversation.metadata?.summary === "string"
+      ? conversation.metadata as unknown as ConversationSummaryMetadata
+      : undefined;
+    const messages = (await this.storage.getConversationMessages(conversationId))
+      .filter((message) => message.type === "text" && (!previous || message.createdAt > previous.summarizedThrough));
+    const threshold = previous ? this.options.resummarizeEvery : this.options.firstAfterMessages;
+    if (messages.length === 0 || (!force && messages.length < threshold)) {
+      return previous;
+    }
+
+    const transcript = messages
+      .map((message) => ({ role: message.role, text: messageText(message).trim() }))
+      .filter(({ text }) => text)
+      .map(({ role, text }) => `${role}: ${text}`)
+      .join("\n\n");
+    const { object, usage } = await generateObject({
+      model: this.model,
+      schema: summarySchema,
+      system: [
+        "You maintain the running summary and title of a conversation between a user and an AI assistant.",
+        "Write the summary as short factual prose that would help find this conversation later: name the topics, files, people, decisions and results.",
+        `Keep it under ${this.options.maxSummaryLength} characters. Never include secrets or credentials.`,
+      ].join(" "),
+      prompt: previous
+        ? `Current title: ${conversation.title}\n\nCurrent summary:\n${previous.summary}\n\nUpdate both with these new messages:\n\n${transcript}`
+        : `Summarize this conversation and give it a title:\n\n${transcript}`,
+    });
+
+    const summary: ConversationSummaryMetadata = {
+      summary: redactionService.redactText(object.summary.trim()).slice(0, this.options.maxSummaryLength),
+      summaryUpdatedAt: new Date().toISOString(),
+      summarizedThrough: messages[messages.length - 1].createdAt,
+      summarizedMessages: (previous?.summarizedMessages ?? 0) + messages.length,
+    };
+    // Only replace titles nobody chose: VoltAgent's default, or one this service generated
+    const generatedTitle = conversation.metadata?.titleGenerated === true || DEFAULT_TITLE_PATTERN.test(conversation.title);
+    const title = redactionService.redactText(object.title.trim());
+    await this.storage.updateConversation(conversationId, {
+      ...(generatedTitle && title ? { title } : {}),
+      metadata: { ...conversation.metadata, ...summary, ...(generatedTitle && title ? { titleGenerated: true } : {}) },
+    });
+    console.log(`📝 Summarized conversation ${conversationId} (${summary.summarizedMessages} messages)`);
+
+    const tokens = { promptTokens: usage.promptTokens || 0, completionTokens: usage.completionTokens || 0 };
+    usageLedger.record({
+      ...tokens,
+      userId: conversation.userId || "anonymous",
+      conversationId,
+      agentName: SUMMARIZER_NAME,
+      model: this.model.modelId,
+      costUsd: estimateCost(this.model.modelId, tokens),
+    }).catch((error) => console.error("❌ Failed to record summary token usage:", error));
+    return summary;
+  }
+}
+
+// Export singleton instance
+export const conversationSummaryService = new ConversationSummaryService();
@@ -0,0 +1,25 @@
+/**
+ * Database Service for VoltAgent
+ * Shared LibSQL client for the project's own tables (context store, logs, ledgers)
+ */
+import { createClient, type Client } from "@libsql/client";
+import { getEnvVar } from "./env";
+
+/**
+ * Database URL shared with the VoltAgent memory storage
+ * Local SQLite file for development, Turso URL for production
+ */
+export const databaseUrl = getEnvVar("DATABASE_URL", "file:data/voltagent-memory.db") ?? "file:data/voltagent-memory.db";
+
+/**
+ * Auth token for Turso (optional for local SQLite)
+ */
+export const databaseAuthToken = getEnvVar("DATABASE_AUTH_TOKEN");
+
+/**
+ * LibSQL client for tables managed by this project
+ */
+export const databaseClient: Client = createClient({
+  url: databaseUrl,
+  authToken: databaseAuthToken,
+});
@@ -0,0 +1,12 @@
+/**
+ * Environment helpers for VoltAgent services
+ * Kept free of side effects so any module can read configuration without opening connections
+ */
+
+// Helper to safely access environment variables in any environment
+export function getEnvVar(name: string, fallback?: string): string | undefined {
+  if (typeof globalThis.process !== "undefined" && globalThis.process.env && globalThis.process.env[name] !== undefined) {
+    return globalThis.process.env[name];
+  }
+  return fallback;
+}
@@ -0,0 +1,167 @@
+/* global console */
+/**
+ * Hook Pipeline
+ * Runs several hook sets as one, in explicit order, with per-hook error isolation and
+ * timeouts, plus hooks that third parties register for every agent
+ */
+import { createHooks, type AgentHooks, type OnPrepareMessagesHookResult } from "@voltagent/core";
+import { getEnvVar } from "./env";
+
+type HookEvent = keyof AgentHooks;
+type HookArgs<E extends HookEvent> = Parameters<NonNullable<AgentHooks[E]>>[0];
+
+/**
+ * A named hook set and where it runs in the pipeline
+ */
+export interface HookRegistration {
+  /** Used in log messages when one of its hooks fails or times out */
+  name: string;
+  hooks: Partial<AgentHooks>;
+  /** Lower runs first; equal orders run in the order they were passed or registered. Default 0 */
+  order?: number;
+  /** Time each hook may take before the pipeline moves on. Default HOOK_TIMEOUT_MS */
+  timeoutMs?: number;
+  /** Only run for these agents (by name) */
+  agents?: string[];
+}
+
+/**
+ * Thrown by a hook to stop the run on purpose, e.g. when a usage budget is spent.
+ * Every other hook error is logged and the run continues.
+ */
+export class HookAbortError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "HookAbortError";
+  }
+}
+
+/**
+ * Default time a single hook may take (HOOK_TIMEOUT_MS, default 5000)
+ */
+export const DEFAULT_HOOK_TIMEOUT_MS = Number(getEnvVar("HOOK_TIMEOUT_MS", "5000")) || 5000;
+
+/**
+ * Hooks registered for every agent that uses composeHooks
+ */
+export class HookRegistry {
+  private registrations: HookRegistration[] = [];
+
+  /**
+   * Add a hook set; returns a function that removes it again
+   */
+  register(registration: HookRegistration): () => void {
+    this.registrations.push(registration);
+    console.log(`🪝 Registered global hooks: ${registration.name}`);
+    return () => this.unregister(registration.name);
+  }
+
+  unregister(name: string): boolean {
+    const before = this.registrations.length;
+    this.registrations = this.registrations.filter((registration) => registration.name !== name);
+    return this.registrations.length < before;
+  }
+
+  list(): HookRegistration[] {
+    return [...this.registrations];
+  }
+}
+
+// Export singleton instance
+export const hookRegistry = new HookRegistry();
+
+/**
+ * Register hooks that run for every agent built with composeHooks
+ */
+export const registerGlobalHooks = (registration: HookRegistration): (() => void) => hookRegistry.register(registration);
+
+/**
+ * Run one hook with a timeout; failures other than HookAbortError are logged and swallowed
+ */
+async function runIsolated<T>(
+  registration: HookRegistration,
+  event: HookEvent,
+  agentName: string | undefined,
+  run: () => Promise<T> | T,
+): Promise<T | undefined> {
+  const label = `${registration.name}.${event}${agentName ? ` (${agentName})` : ""}`;
+  const timeoutMs = registration.timeoutMs ?? DEFAULT_HOOK_TIMEOUT_MS;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<"timeout">((resolve) => {
+    timer = setTimeout(() => resolve("timeout"), timeoutMs);
+  });
+  try {
+    const result = await Promise.race([Promise.resolve().then(run), timeout]);
+    if (result === "timeout") {
+      console.warn(`⏱️  Hook ${label} timed out after ${timeoutMs}ms; continuing without it`);
+      return undefined;
+    }
+    return result as T;
+  } catch (error) {
+    if (error instanceof HookAbortError) {
+      throw error;
+    }
+    console.error(`❌ Hook ${label} failed; continuing:`, error);
+    return undefined;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Combine hook sets into the single hooks object an agent accepts. Global hooks are looked
+ * up on every call, so hooks registered after the agent was created still run.
+ *
+ * @example
+ * ```typescript
+ * hooks: composeHooks(
+ *   { name: "supervisor", hooks: createSupervisorHooks("Supervisor") },
+ *   { name: "conversation", hooks: createConversationHooks("Supervisor"), order: 10 },
+ * )
+ * ```
+ */
+export function composeHooks(...entries: Array<HookRegistration | Partial<AgentHooks>>): AgentHooks {
+  const local: HookRegistration[] = entries.map((entry, index) =>
+    "hooks" in entry && "name" in entry ? entry as HookRegistration : { name: `hooks-${index + 1}`, hooks: entry as Partial<AgentHooks> },
+  );
+
+  const pipeline = (agentName?: string) =>
+    [...local, ...hookRegistry.list()]
+      .filter((registration) => !registration.agents || (agentName !== undefined && registration.agents.includes(agentName)))
+      .sort((a, b) => (a.order ?? 0) - (b.order ?? 0));
+
+  const runAll = <E extends Exclude<HookEvent, "onPrepareMessages">>(event: E) =>
+    async (args: HookArgs<E>) => {
+      for (const registration of pipeline(args.agent?.name)) {
+        const hook = registration.hooks[event] as ((hookArgs: HookArgs<E>) => Promise<void> | void) | undefined;
+        if (hook) {
+          await runIsolated(registration, event, args.agent?.name, () => hook(args));
+        }
+      }
+    };
+
+  return createHooks({
+    onStart: runAll("onStart"),
+    onEnd: runAll("onEnd"),
+    onHandoff: runAll("onHandoff"),
+    onToolStart: runAll("onToolStart"),
+    onToolEnd: runAll("onToolEnd"),
+    // Each hook sees the messages as transformed by the hooks before it
+    onPrepareMessages: async (args) => {
+      let messages = args.messages;
+      for (const registration of pipeline(args.agent?.name)) {
+        const hook = registration.hooks.onPrepareMessages;
+        if (hook) {
+          const result: OnPrepareMessagesHookResult | undefined = await runIsolated(
+            registration,
+            "onPrepareMessages",
+            args.agent?.name,
+            () => hook({ ...args, messages }),
+          );
+          messages = result?.messages ?? messages;
+        }
+      }
+      return { messages };
+    },
+  });
+}
@@ -4,6 +4,13 @@
  * Enhanced with VoltAgent best practices for observability and error handling
  */
 import { createHooks, OnStartHookArgs, OnEndHookArgs, OnToolStartHookArgs, OnToolEndHookArgs, OnHandoffHookArgs } from "@voltagent/core";
+import { appendHandoff, appendToolPolicyViolation, takeToolCallOutcome, type ToolCallOutcome } from "./contextKeys";
+import { redactionService } from "./redaction";
+import { toolTimelineService, type ToolCallRecord } from "./toolTimeline";
+import { usageLedger, type UsageRecord } from "./usageLedger";
+import { metricsService } from "./metrics";
+import { HookAbortError } from "./hookPipeline";
+import { conversationSummaryEnabled, conversationSummaryService } from "./conversationSummary";
 
 /**
  * Hook configuration options for customizing behavior
@@ -26,14 +33,98 @@ export interface HookConfig {
  */
 export interface ToolExecution {
   name: string;
+  toolCallId?: string;
   startTime: string;
   startTimestamp: number;
   success?: boolean;
   error?: string;
   duration?: number;
   result?: unknown;
+  /** Timeout/retry/circuit-breaker outcome for MCP tool calls */
+  outcome?: ToolCallOutcome;
+  /** Tool call ids of the calls that ran in parallel with this one */
+  overlapsWith?: string[];
+  /** Most tool calls in flight at once while this one ran */
+  maxConcurrency?: number;
 }
 
+/**
+ * Pick up the policy outcome of an MCP tool call and keep it in the operation's history.
+ * The agent turns tool exceptions into `{ error: true }` results, so a failed outcome
+ * is the reliable failure signal for MCP tools.
+ */
+const collectToolOutcome = (userContext: Map<string | symbol, unknown>, toolName: string, toolCallId?: string): ToolCallOutcome | undefined => {
+  const outcome = takeToolCallOutcome(userContext, toolName, toolCallId);
+  if (outcome) {
+    const history = (userContext.get("toolOutcomeHistory") as ToolCallOutcome[] | undefined) || [];
+    history.push(outcome);
+    userContext.set("toolOutcomeHistory", history);
+  }
+  return outcome;
+};
+
+/**
+ * Error of a finished tool call: the thrown error, or a failed MCP outcome
+ */
+const toolErrorMessage = (error: OnToolEndHookArgs["error"], outcome?: ToolCallOutcome): string | undefined =>
+  error?.message ?? (outcome && outcome.status !== "success" ? outcome.error ?? outcome.status : undefined);
+
+/**
+ * Close the tracked call an onToolEnd belongs to: collect its outcome and attach it to the
+ * timeline entry (the audit entry is written where the call ran)
+ */
+const settleToolCall = (args: OnToolEndHookArgs): { call?: ToolCallRecord; outcome?: ToolCallOutcome; errorMessage?: string } => {
+  const call = toolTimelineService.settleCall(args);
+  const outcome = collectToolOutcome(args.context.userContext, args.tool.name, call?.toolCallId);
+  if (call) {
+    toolTimelineService.recordOutcome(call, outcome);
+  }
+  const errorMessage = call?.error ?? toolErrorMessage(args.error, outcome);
+  metricsService.recordToolCall(args.tool.name, outcome?.serverKey, outcome?.status ?? (errorMessage ? "error" : "success"), call?.durationMs);
+  return { call, outcome, errorMessage };
+};
+
+/**
+ * Add a finished run to the usage ledger and the run metrics
+ */
+const recordRun = (args: OnEndHookArgs): UsageRecord | undefined => {
+  const usage = args.output ? usageLedger.recordRun(args) : undefined;
+  const startTime = args.context.historyEntry?.startTime;
+  metricsService.recordAgentRun(
+    args.agent.name,
+    args.error ? "error" : "success",
+    startTime ? Date.now() - new Date(startTime).getTime() : undefined,
+    usage,
+  );
+  return usage;
+};
+
+/**
+ * Refuse to start a run for a user whose usage budget is spent
+ */
+const enforceUsageBudget = async (context: OnStartHookArgs["context"]): Promise<void> => {
+  const userId = context.historyEntry?.userId;
+  if (userId) {
+    // Aborts the run even when these hooks are isolated by composeHooks
+    await usageLedger.enforceBudget(userId).catch((error: Error) => {
+      throw new HookAbortError(error.message);
+    });
+  }
+};
+
+/**
+ * Keep MCP calls rejected by a tool access policy apart from ordinary failures
+ */
+const recordPolicyViolation = (userContext: Map<string | symbol, unknown>, agentName: string, outcome?: ToolCallOutcome): void => {
+  if (outcome?.status === "denied") {
+    appendToolPolicyViolation(userContext, {
+      agentName,
+      toolName: outcome.toolName,
+      reason: outcome.error ?? "denied",
+    });
+  }
+};
+
 /**
  * Create comprehensive hooks for agent lifecycle management
  * Includes logging, context tracking, and observability
@@ -53,6 +144,7 @@ export const createAgentHooks = (agentName: string, config: HookConfig = {}) =>
      */
     onStart: async (args: OnStartHookArgs) => {
       const { agent, context } = args;
+      await enforceUsageBudget(context);
       const effectiveName = agentName || agent.name;
       const operationId = operationIdGenerator();
       const startTime = new Date().toISOString();
@@ -75,15 +167,16 @@ export const createAgentHooks = (agentName: string, config: HookConfig = {}) =>
       const operationId = context.userContext.get("operationId");
       const startTime = context.userContext.get("startTime");
       const performanceMetrics = context.userContext.get("performanceMetrics") || {};
+      const usageRecord = recordRun(args);
       if (verbose && typeof globalThis.console !== 'undefined') {
         globalThis.console.log(`${logPrefix} [onEnd] Agent: ${agent.name}, Operation: ${operationId}, Error: ${!!error}`);
       }
       if (error) {
         context.userContext.set("error", {
-          message: error.message,
+          message: redactionService.redactText(error.message),
           type: error.constructor.name,
           timestamp: new Date().toISOString(),
-          details: verbose ? JSON.stringify(error) : undefined
+          details: verbose ? redactionService.stringify(error) : undefined
         });
       } else if (output) {
         const endTime = new Date().toISOString();
@@ -103,16 +196,22 @@ export const createAgentHooks = (agentName: string, config: HookConfig = {}) =>
             context.userContext.set("tokenBreakdown", {
               prompt: output.usage.promptTokens,
               completion: output.usage.completionTokens,
-              total: tokenUsage
+              total: tokenUsage,
+              cached: usageRecord?.cachedTokens ?? 0,
+              costUsd: usageRecord?.costUsd ?? 0
             });
           }
         }
         if (analytics) {
+          const toolTimeline = toolTimelineService.getTimeline(context.operationId);
           const operationSummary = {
             operationId,
             agentName: agent.name,
             duration,
             tokenUsage: ("usage" in output && output.usage) ? output.usage.totalTokens : 0,
+            toolCalls: toolTimeline.calls.length,
+            parallelToolCalls: toolTimeline.parallelCalls,
+            maxToolConcurrency: toolTimeline.maxConcurrency,
             success: true,
             timestamp: endTime
           };
@@ -124,21 +223,9 @@ export const createAgentHooks = (agentName: string, config: HookConfig = {}) =>
      */
     onToolStart: async (args: OnToolStartHookArgs) => {
       const { agent, tool, context } = args;
-      const operationId = context.userContext.get("operationId");
-      const performanceMetrics = context.userContext.get("performanceMetrics") || { toolExecutions: [] as ToolExecution[] };
       if (verbose && typeof globalThis.console !== 'undefined') {
-        globalThis.console.log(`${logPrefix} [onToolStart] Agent: ${agent.name}, Tool: ${tool.name}, Operation: ${operationId}`);
+        globalThis.console.log(`${logPrefix} [onToolStart] Agent: ${agent.name}, Tool: ${tool.name}, Operation: ${context.userContext.get("operationId")}`);
       }
-      const toolExecution: ToolExecution = {
-        name: tool.name,
-        startTime: new Date().toISOString(),
-        startTimestamp: Date.now()
-      };
-      const toolsInProgress: ToolExecution[] = context.userContext.get("toolsInProgress") || [];
-      toolsInProgress.push(toolExecution);
-      context.userContext.set("toolsInProgress", toolsInProgress);
-      (performanceMetrics.toolExecutions as ToolExecution[]).push(toolExecution);
-      context.userContext.set("performanceMetrics", performanceMetrics);
     },
 
     /**
@@ -147,42 +234,55 @@ export const createAgentHooks = (agentName: string, config: HookConfig = {}) =>
     onToolEnd: async (args: OnToolEndHookArgs) => {
       const { agent, tool, output, error, context } = args;
       const operationId = context.userContext.get("operationId");
-      const toolsInProgress: ToolExecution[] = context.userContext.get("toolsInProgress") || [];
       const performanceMetrics = context.userContext.get("performanceMetrics") || { toolExecutions: [] as ToolExecution[] };
-      const toolIndex = toolsInProgress.findIndex((t) => t.name === tool.name && !t.success && !t.error);
+      // Timed where the tool ran, so parallel calls of the same tool keep their own duration and result
+      const { call, outcome, errorMessage } = settleToolCall(args);
+      if (analytics) {
+        recordPolicyViolation(context.userContext, agent.name, outcome);
+      }
       if (verbose && typeof globalThis.console !== 'undefined') {
-        globalThis.console.log(`${logPrefix} [onToolEnd] Agent: ${agent.name}, Tool: ${tool.name}, Operation: ${operationId}, Error: ${!!error}`);
+        globalThis.console.log(`${logPrefix} [onToolEnd] Agent: ${agent.name}, Tool: ${tool.name}, Call: ${call?.toolCallId}, Operation: ${operationId}, In flight: ${call?.maxConcurrency}, Error: ${!!errorMessage}${outcome ? `, Outcome: ${outcome.status} (${outcome.cached ? 'cached' : `${outcome.attempts} attempts`}, circuit ${outcome.circuitState})${outcome.approvedBy ? `, approved by ${outcome.approvedBy}` : ''}` : ''}`);
       }
-      if (toolIndex >= 0) {
-        const toolExecution = toolsInProgress[toolIndex];
-        const duration = Date.now() - toolExecution.startTimestamp;
-        if (error) {
+      if (call) {
+        const duration = call.durationMs ?? 0;
+        const toolExecution: ToolExecution = {
+          name: tool.name,
+          toolCallId: call.toolCallId,
+          startTime: call.startTime,
+          startTimestamp: call.startTimestamp,
+          duration,
+          outcome,
+          overlapsWith: call.overlapsWith,
+          maxConcurrency: call.maxConcurrency
+        };
+        if (errorMessage) {
           const toolErrors = context.userContext.get("toolErrors") || [];
           toolErrors.push({
             toolName: tool.name,
-            error: error.message,
+            toolCallId: call.toolCallId,
+            error: redactionService.redactText(errorMessage),
             duration,
+            outcome,
             timestamp: new Date().toISOString(),
-            details: verbose ? JSON.stringify(error) : undefined
+            details: verbose ? redactionService.stringify(error ?? outcome) : undefined
           });
           context.userContext.set("toolErrors", toolErrors);
-          toolExecution.error = error.message;
-          toolExecution.duration = duration;
+          toolExecution.error = redactionService.redactText(errorMessage);
         } else {
           const completedTools = context.userContext.get("completedTools") || [];
-          toolExecution.result = verbose ? output : (typeof output === 'string' ? output.slice(0, 100) + '...' : '[Object]');
+          toolExecution.result = verbose ? redactionService.redact(output) : (typeof output === 'string' ? redactionService.redactText(output.slice(0, 100)) + '...' : '[Object]');
           completedTools.push({
             name: tool.name,
+            toolCallId: call.toolCallId,
             result: toolExecution.result,
-            duration: duration,
+            duration,
+            outcome,
             timestamp: new Date().toISOString()
           });
           context.userContext.set("completedTools", completedTools);
           toolExecution.success = true;
-          toolExecution.duration = duration;
         }
-        toolsInProgress.splice(toolIndex, 1);
-        context.userContext.set("toolsInProgress", toolsInProgress);
+        (performanceMetrics.toolExecutions as ToolExecution[]).push(toolExecution);
         context.userContext.set("performanceMetrics", performanceMetrics);
       }
     },    /**
@@ -204,10 +304,9 @@ export const createAgentHooks = (agentName: string, config: HookConfig = {}) =>
         if (verbose && typeof globalThis.console !== 'undefined') {
           globalThis.console.log(`${logPrefix} [onHandoff] ${from} → ${to} (operationId: ${opId})`);
         }
+        metricsService.recordDelegation(from, to);
         if (userContext) {
-          const handoffs = (userContext.get("handoffs") as unknown[] | undefined) || [];
-          handoffs.push({ from, to, opId, timestamp: new Date().toISOString() });
-          userContext.set("handoffs", handoffs);
+          appendHandoff(userContext, { from, to, opId: String(opId) });
         }
       } catch (err) {
         if (typeof globalThis.console !== 'undefined') {
@@ -226,6 +325,7 @@ export const createSupervisorHooks = (supervisorName: string, config: HookConfig
   
   return createHooks({
     onStart: async ({ context }: OnStartHookArgs) => {
+      await enforceUsageBudget(context);
       // Enhanced supervisor tracking
       const supervisorContext = {
         supervisorOperationId: `sup-${Date.now()}-${Math.random().toString(36).substring(2, 6)}`,
@@ -238,11 +338,15 @@ export const createSupervisorHooks = (supervisorName: string, config: HookConfig
       });
     },
 
-    onEnd: async ({ output, error, context }: OnEndHookArgs) => {
+    onEnd: async (args: OnEndHookArgs) => {
+      const { output, error, context } = args;
+      recordRun(args);
       const delegationCount = context.userContext.get("delegationCount") || 0;
       const coordinationStartTime = context.userContext.get("coordinationStartTime");
       const duration = coordinationStartTime ? Date.now() - coordinationStartTime : 0;
       const subAgentResults = context.userContext.get("subAgentResults") || [];
+      // Includes the tool calls of the sub-agents this run delegated to
+      const maxToolConcurrency = analytics ? toolTimelineService.getTimeline(context.operationId).maxConcurrency : 0;
       if (error) {
         if (analytics) {
           context.userContext.set("supervisorMetrics", {
@@ -250,7 +354,8 @@ export const createSupervisorHooks = (supervisorName: string, config: HookConfig
             delegationCount,
             duration,
             subAgentResults: subAgentResults.length,
-            error: error.message
+            maxToolConcurrency,
+            error: redactionService.redactText(error.message)
           });
         }
       } else if (output) {
@@ -260,11 +365,13 @@ export const createSupervisorHooks = (supervisorName: string, config: HookConfig
             delegationCount,
             duration,
             subAgentResults: subAgentResults.length,
+            maxToolConcurrency,
             totalTokens: ("usage" in output && output.usage) ? output.usage.totalTokens : 0
           });
         }
       }
-    },    onToolStart: async ({ tool, context }: OnToolStartHookArgs) => {
+    },    onToolStart: async (args: OnToolStartHookArgs) => {
+      const { tool, context } = args;
       // Only increment for the specific delegation tool
       if (tool.name === 'delegate_task') {
         const delegationCount = context.userContext.get("delegationCount") || 0;
@@ -272,6 +379,10 @@ export const createSupervisorHooks = (supervisorName: string, config: HookConfig
       }
     },
 
+    onToolEnd: async (args: OnToolEndHookArgs) => {
+      settleToolCall(args);
+    },
+
     onHandoff: async (args: OnHandoffHookArgs) => {
       const { agent, sourceAgent } = args as { agent: { name?: string; lastContext?: { userContext?: Map<string, unknown> } }, sourceAgent?: { name?: string; lastContext?: { userContext?: Map<string, unknown> } } };
       try {
@@ -287,10 +398,9 @@ export const createSupervisorHooks = (supervisorName: string, config: HookConfig
         if (analytics && typeof globalThis.console !== 'undefined') {
           globalThis.console.log(`${logPrefix} [onHandoff] ${from} → ${to} (operationId: ${opId})`);
         }
+        metricsService.recordDelegation(from, to);
         if (userContext) {
-          const handoffs = (userContext.get("handoffs") as unknown[] | undefined) || [];
-          handoffs.push({ from, to, opId, timestamp: new Date().toISOString() });
-          userContext.set("handoffs", handoffs);
+          appendHandoff(userContext, { from, to, opId: String(opId) });
         }
       } catch (err) {
         if (typeof globalThis.console !== 'undefined') {
@@ -309,13 +419,16 @@ export const createSubAgentHooks = (subAgentName: string, specialty: string, con
   
   return createHooks({
     onStart: async ({ context }: OnStartHookArgs) => {
+      await enforceUsageBudget(context);
       // Enhanced sub-agent context
       context.userContext.set("subAgentSpecialty", specialty);
       context.userContext.set("subAgentStartTime", Date.now());
       context.userContext.set("subAgentName", subAgentName);
     },
 
-    onEnd: async ({ agent, output, error, context }: OnEndHookArgs) => {
+    onEnd: async (args: OnEndHookArgs) => {
+      const { agent, output, error, context } = args;
+      recordRun(args);
       if (verbose && typeof globalThis.console !== 'undefined') {
         globalThis.console.log(`${logPrefix} [onEnd] SubAgent: ${agent.name}, Error: ${!!error}`);
       }
@@ -332,7 +445,7 @@ export const createSubAgentHooks = (subAgentName: string, specialty: string, con
             specialty,
             success: false,
             duration,
-            error: error.message,
+            error: redactionService.redactText(error.message),
             delegationNumber: delegationCount
           });
           context.userContext.set("subAgentResults", subAgentResults);
@@ -354,6 +467,24 @@ export const createSubAgentHooks = (subAgentName: string, specialty: string, con
       }
     },
 
+    onToolEnd: async (args: OnToolEndHookArgs) => {
+      const { agent, tool, context } = args;
+      // MCP tools report timeout/retry/circuit-breaker outcomes for the supervisor's analytics
+      const { outcome } = settleToolCall(args);
+      if (!outcome) return;
+      if ((verbose || outcome.status !== "success") && typeof globalThis.console !== 'undefined') {
+        globalThis.console.log(`${logPrefix} [onToolEnd] SubAgent: ${agent.name}, Tool: ${tool.name}, Outcome: ${outcome.status} (${outcome.attempts} attempts, ${outcome.durationMs}ms, circuit ${outcome.circuitState})${outcome.approvedBy ? `, approved by ${outcome.approvedBy}` : ''}`);
+      }
+      if (analytics) {
+        recordPolicyViolation(context.userContext, agent.name, outcome);
+      }
+      if (analytics && outcome.status !== "success") {
+        const toolFailures = context.userContext.get("subAgentToolFailures") || [];
+        toolFailures.push({ agent: subAgentName, ...outcome });
+        context.userContext.set("subAgentToolFailures", toolFailures);
+      }
+    },
+
     onHandoff: async (args: OnHandoffHookArgs) => {
       const { agent, sourceAgent } = args as { agent: { name?: string; lastContext?: { userContext?: Map<string, unknown> } }, sourceAgent?: { name?: string; lastContext?: { userContext?: Map<string, unknown> } } };
       try {
@@ -369,10 +500,9 @@ export const createSubAgentHooks = (subAgentName: string, specialty: string, con
         if (analytics && typeof globalThis.console !== 'undefined') {
           globalThis.console.log(`${logPrefix} [onHandoff] ${from} → ${to} (operationId: ${opId})`);
         }
+        metricsService.recordDelegation(from, to);
         if (userContext) {
-          const handoffs = (userContext.get("handoffs") as unknown[] | undefined) || [];
-          handoffs.push({ from, to, opId, timestamp: new Date().toISOString() });
-          userContext.set("handoffs", handoffs);
+          appendHandoff(userContext, { from, to, opId: String(opId) });
         }
       } catch (err) {
         if (typeof globalThis.console !== 'undefined') {
@@ -410,6 +540,32 @@ export const createConversationHooks = (agentName: string, config: HookConfig =
   });
 };
 
+/**
+ * Create hooks that update the conversation summary and title after top-level runs.
+ * The summary is written in the background, so it never delays or fails the run.
+ */
+export const createConversationSummaryHooks = (config: HookConfig = {}) => {
+  const { verbose = false } = config;
+  return createHooks({
+    onEnd: async ({ error, context }: OnEndHookArgs) => {
+      const conversationId = context.historyEntry?.conversationId;
+      // Sub-agent runs are part of the supervisor's run and summarized with it
+      if (!conversationSummaryEnabled || error || !conversationId || context.parentAgentId) return;
+      conversationSummaryService.summarize(conversationId)
+        .then((summary) => {
+          if (verbose && summary && typeof globalThis.console !== 'undefined') {
+            globalThis.console.log(`[VoltAgent:Conversation] Summary of ${conversationId}: ${summary.summary}`);
+          }
+        })
+        .catch((summaryError) => {
+          if (typeof globalThis.console !== 'undefined') {
+            globalThis.console.error(`❌ Failed to summarize conversation ${conversationId}:`, summaryError);
+          }
+        });
+    }
+  });
+};
+
 /**
  * Default hooks for general agents with basic configuration
  */
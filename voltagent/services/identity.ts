@@ -0,0 +1,80 @@
+/**
+ * Request Identity
+ * Server-side identity for the API routes: a signed cookie names the chat user and
+ * `ADMIN_API_TOKEN` unlocks the admin routes. User ids sent in request bodies are never trusted.
+ */
+import { createHmac, randomBytes, randomUUID, timingSafeEqual } from "node:crypto";
+import { getEnvVar } from "./env";
+
+const USER_COOKIE = "voltagent_user";
+const USER_COOKIE_MAX_AGE_SECONDS = 365 * 24 * 60 * 60;
+
+/**
+ * Key signing the user cookie. Without SESSION_SECRET, cookies stop being valid when the process restarts.
+ */
+const sessionSecret = getEnvVar("SESSION_SECRET") || randomBytes(32).toString("hex");
+
+/**
+ * Who sent a request
+ */
+export interface RequestIdentity {
+  /** User named by a valid user cookie */
+  userId?: string;
+  /** The request carries `Authorization: Bearer <ADMIN_API_TOKEN>` */
+  isAdmin: boolean;
+}
+
+const safeEqual = (actual: string, expected: string): boolean => {
+  const actualBytes = Buffer.from(actual);
+  const expectedBytes = Buffer.from(expected);
+  return actualBytes.length === expectedBytes.length && timingSafeEqual(actualBytes, expectedBytes);
+};
+
+const sign = (userId: string): string => createHmac("sha256", sessionSecret).update(userId).digest("base64url");
+
+/**
+ * Check the admin bearer token of a request. Admin access is off while ADMIN_API_TOKEN is unset.
+ */
+export function isAdminRequest(req: Request): boolean {
+  const token = getEnvVar("ADMIN_API_TOKEN");
+  return Boolean(token) && safeEqual(req.headers.get("authorization") ?? "", `Bearer ${token}`);
+}
+
+/**
+ * User named by the request's user cookie, if its signature is valid
+ */
+export function getRequestUser(req: Request): string | undefined {
+  const value = (req.headers.get("cookie") ?? "")
+    .split(";")
+    .map((part) => part.trim())
+    .find((part) => part.startsWith(`${USER_COOKIE}=`))
+    ?.slice(USER_COOKIE.length + 1);
+  const separator = value?.lastIndexOf(".") ?? -1;
+  if (!value || separator <= 0) {
+    return undefined;
+  }
+  const userId = value.slice(0, separator);
+  return safeEqual(value.slice(separator + 1), sign(userId)) ? userId : undefined;
+}
+
+/**
+ * User and admin status of a request
+ */
+export function getRequestIdentity(req: Request): RequestIdentity {
+  return { userId: getRequestUser(req), isAdmin: isAdminRequest(req) };
+}
+
+/**
+ * Fresh user id for a request without a user cookie
+ */
+export function createUserId(): string {
+  return `user-${randomUUID()}`;
+}
+
+/**
+ * `Set-Cookie` header value that identifies a user on later requests
+ */
+export function userCookieHeader(userId: string): string {
+  const secure = getEnvVar("NODE_ENV") === "production" ? "; Secure" : "";
+  return `${USER_COOKIE}=${userId}.${sign(userId)}; Path=/; Max-Age=${USER_COOKIE_MAX_AGE_SECONDS}; HttpOnly; SameSite=Lax${secure}`;
+}
@@ -4,10 +4,37 @@
  */
 
 // Core Services
-export { mcpConfig, mcpToolsService, MCPToolsService } from "./mcp";
+export { mcpServers, mcpToolsService, MCPToolsService } from "./mcp";
+export { MCPHealthTracker, DEFAULT_MCP_HEALTH_OPTIONS, withTimeout } from "./mcpHealth";
+export { mcpConfigPath, loadMCPServers, parseMCPConfig, watchMCPConfig, interpolateEnv } from "./mcpConfigFile";
+export type { MCPServer, MCPTool, MCPServerStatus, AgentToolReport, AgentServerDiagnostic } from "./mcp";
+export type { MCPResource, MCPResourceContent, MCPPrompt, MCPPromptResult } from "./mcp";
+export type { MCPServerState, MCPHealthOptions } from "./mcpHealth";
+export { CircuitBreaker, executeWithPolicy, resolveCallPolicy, DEFAULT_CALL_POLICY, DEFAULT_CIRCUIT_BREAKER } from "./mcpPolicy";
+export type { MCPCallPolicy, MCPServerPolicy, MCPCallOutcome, CircuitState } from "./mcpPolicy";
+export { MCPResultCache, normalizeArgs } from "./mcpCache";
+export type { MCPCacheStats } from "./mcpCache";
+export { toolDiscoveryService, ToolDiscoveryService, DEFAULT_TOOL_DISCOVERY_POLICIES } from "./toolDiscovery";
+export type { ToolDiscoveryPolicy, ToolCatalogEntry } from "./toolDiscovery";
+export {
+  toolAccessService,
+  ToolAccessService,
+  DEFAULT_TOOL_ACCESS_POLICIES,
+  TOOL_BASELINE_POLICY,
+  matchesToolGlob,
+  pathPrefixGuard,
+  readOnlySqlGuard,
+  allowedReposGuard,
+} from "./toolAccess";
+export type { ToolAccessPolicy, ToolArgumentGuard } from "./toolAccess";
+export { toolApprovalService, ToolApprovalService, DEFAULT_APPROVAL_TIMEOUT_MS } from "./toolApproval";
+export type { ToolApprovalRequest, ToolApprovalDecision, ToolApprovalListener, ClientApprovalRequest, ClientApprovalDecision, ClientDecisionResult } from "./toolApproval";
+export { toolSelectionService, ToolSelectionService, DEFAULT_TOOL_SELECTION_OPTIONS, toolPreselectionEnabled } from "./toolSelection";
+export type { ToolSelectionOptions, ToolSelection, TextEmbedder } from "./toolSelection";
 export { memoryService, MemoryService } from "./memory";
 export { 
   documentRetriever, 
+  mcpResourceRetriever,
   retrieverService, 
   RetrieverService, 
   DocumentRetriever, 
@@ -21,12 +48,60 @@ export {
   ContextService,
   contextHelpers
 } from "./context";
+export type { ContextChangeEvent, ContextListener } from "./context";
+export { contextStore, ContextStore, CONTEXT_KEY_TTLS } from "./contextStore";
+export { auditLog, AuditLog, redactArgs, summarizeResult } from "./auditLog";
+export type { AuditEntry, NewAuditEntry, AuditQuery } from "./auditLog";
+export { redactionService, RedactionService, DEFAULT_REDACTION_PATTERNS, redactionEnabled } from "./redaction";
+export type { RedactionPattern } from "./redaction";
+export { toolTimelineService, ToolTimelineService } from "./toolTimeline";
+export type { ToolCallRecord, ToolTimeline } from "./toolTimeline";
+export { usageLedger, UsageLedger, estimateCost } from "./usageLedger";
+export type { TokenUsage, UsageRecord, UsageQuery, UsageTotals, UsageGroupBy, UsageBudget, BudgetPeriod, BudgetStatus } from "./usageLedger";
+export { metricsService, MetricsService, Counter, Histogram, METRICS_CONTENT_TYPE } from "./metrics";
+export { composeHooks, registerGlobalHooks, hookRegistry, HookRegistry, HookAbortError, DEFAULT_HOOK_TIMEOUT_MS } from "./hookPipeline";
+export type { HookRegistration } from "./hookPipeline";
+export { replayService, ReplayService, replayMode, replayFixturePath } from "./replay";
+export { conversationSummaryService, ConversationSummaryService, conversationSummaryEnabled } from "./conversationSummary";
+export type { ConversationSummaryMetadata, ConversationSummaryOptions } from "./conversationSummary";
+export type { ReplayMode, ReplayFixture, RecordedModelCall, RecordedToolCall, RecordedTool } from "./replay";
+export {
+  contextKeySchemas,
+  isContextKey,
+  validateContextValue,
+  readContextValue,
+  writeContextValue,
+  appendHandoff,
+  appendReference,
+  appendToolCallOutcome,
+  takeToolCallOutcome,
+  appendAcquiredTool,
+  appendToolPolicyViolation,
+  appendToolApproval
+} from "./contextKeys";
+export type {
+  ContextKey,
+  ContextValue,
+  HandoffEntry,
+  OperationResultEntry,
+  ConversationEntry,
+  ReferenceEntry,
+  ToolCallOutcome,
+  AcquiredTool,
+  ToolPolicyViolation,
+  ToolApprovalEntry
+} from "./contextKeys";
+export { databaseClient } from "./database";
+export { getEnvVar } from "./env";
+export { getRequestIdentity, getRequestUser, isAdminRequest, createUserId, userCookieHeader } from "./identity";
+export type { RequestIdentity } from "./identity";
 
 // Hooks
 export {
   createAgentHooks,
   createSupervisorHooks,
   createSubAgentHooks,
+  createConversationSummaryHooks,
   defaultAgentHooks
 } from "./hooks";
 
@@ -4,212 +4,203 @@
  * Provides tools from MCP servers for VoltAgent
  * Comprehensive integration with official and community MCP servers
  */
-import { MCPConfiguration } from "@voltagent/core";
+import { MCPClient, createTool, type BaseTool, type MCPServerConfig, type ToolExecuteOptions } from "@voltagent/core";
+import type { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { z } from "zod";
+import { loadMCPServers, watchMCPConfig, mcpConfigPath, isRemoteServer, buildRemoteHeaders, type MCPServer } from "./mcpConfigFile";
+import { MCPHealthTracker, withTimeout, type MCPHealthOptions, type MCPServerState } from "./mcpHealth";
+import { CircuitBreaker, executeWithPolicy, resolveCallPolicy, DEFAULT_CALL_POLICY, type CircuitState, type MCPCallOutcome } from "./mcpPolicy";
+import { MCPResultCache, type MCPCacheStats } from "./mcpCache";
+import { toolAccessService } from "./toolAccess";
+import { toolApprovalService } from "./toolApproval";
+import { contextService } from "./context";
+import { appendToolApproval, appendToolCallOutcome } from "./contextKeys";
+import { replayService } from "./replay";
+
+export type { MCPServer } from "./mcpConfigFile";
 
 /**
- * Create MCP servers configuration based on available environment variables
- * Only includes servers that have required credentials or work without them
+ * Tool loaded from an MCP server
  */
-function createMCPServers() {
-  interface MCPServer {
-    name: string;
-    type: "stdio"; // <-- Fix: restrict to "stdio"
-    timeout?: number;
-    command: string;
-    args: string[];
-    env?: Record<string, string>; // <-- Fix: all values must be string
-    disabled?: boolean;
-  }
-
-  const servers: Record<string, MCPServer> = {};
-
-  // ============================
-  // ALWAYS AVAILABLE SERVERS (no auth required)
-  // ============================
-  servers.filesystem = {
-    name: "File_System",
-    type: "stdio",
-    timeout: 60000,
-    command: "npx",
-    args: [
-      "-y",
-      "@modelcontextprotocol/server-filesystem",
-      (typeof globalThis.process !== "undefined" && typeof globalThis.process.cwd === "function")
-        ? globalThis.process.cwd()
-        : ".",
-      "c:/Users/dm/Documents/deanmachines-volt"
-    ],
-  };
-
-  servers.memory = {
-    name: "Memory",
-    type: "stdio",
-    command: "npx",
-    args: ["-y", "@modelcontextprotocol/server-memory"],
-  };
-
-  servers.browser = {
-    name: "Browser",
-    type: "stdio",
-    timeout: 60000,
-    command: "npx",
-    args: ["-y", "@modelcontextprotocol/server-puppeteer"],
-  };
-
-  servers.git = {
-    name: "Git",
-    type: "stdio",
-    timeout: 60000,
-    command: "uvx",
-    args: [
-      "mcp-server-git",
-      "--repository",
-      (typeof globalThis.process !== "undefined" && typeof globalThis.process.cwd === "function")
-        ? globalThis.process.cwd()
-        : ".",
-      "c:/Users/dm/Documents/deanmachines-volt"
-    ],
-  };
-
-  servers.docker = {
-    name: "Docker",
-    type: "stdio",
-    timeout: 60000,
-    command: "npx",
-    args: ["-y", "@modelcontextprotocol/server-docker"],
-  };
-
-  servers.everything = {
-    name: "Everything",
-    type: "stdio",
-    timeout: 60000,
-    command: "npx",
-    args: ["-y", "@modelcontextprotocol/server-everything"],
-  };
-
-  servers.voltagent = {
-    name: "Voltagent",
-    type: "stdio",
-    command: "npx",
-    args: ["-y", "@voltagent/docs-mcp"],
-    timeout: 60000,
-    disabled: false
-  };
-
-  servers.vibe_check = {
-    name: "Vibe_Check",
-    timeout: 60000,
-    type: "stdio",
-    command: "node",
-    args: [
-      "C:\\Users\\dm\\vibe-check-mcp-server\\build\\index.js"
-      ],
-    env: {
-      GEMINI_API_KEY: (typeof globalThis.process !== "undefined" && globalThis.process.env?.GEMINI_API_KEY) 
-        ? globalThis.process.env.GEMINI_API_KEY ?? ""
-        : "",
-    },
-    disabled: false
-  };
-
-
-  // ============================
-  // CONDITIONAL SERVERS (require credentials)
-  // ============================
-
-  // GitHub - only if token is available
-  if (typeof globalThis.process !== "undefined" && globalThis.process.env?.GITHUB_TOKEN) {
-    servers.github = {
-      name: "GitHub",
-      timeout: 60000,
-      type: "stdio",
-      command: "npx",
-      args: ["-y", "@modelcontextprotocol/server-github"],
-      env: {
-        GITHUB_PERSONAL_ACCESS_TOKEN: globalThis.process.env.GITHUB_TOKEN ?? "",
-      },
-    };
-    console.log("✅ GitHub MCP server enabled");
-  } else {
-    console.log("⚠️  GitHub MCP server disabled (GITHUB_TOKEN not found)");
-  }
-
-  // Brave Search - only if API key is available
-  if (typeof globalThis.process !== "undefined" && globalThis.process.env?.BRAVE_API_KEY) {
-    servers.web_search = {
-      name: "Brave_Search",
-      timeout: 60000,
-      type: "stdio", 
-      command: "npx",
-      args: ["-y", "@modelcontextprotocol/server-brave-search"],
-      env: {
-        BRAVE_API_KEY: globalThis.process.env.BRAVE_API_KEY ?? "",
-      },
-    };
-    console.log("✅ Brave Search MCP server enabled");
-  } else {
-    console.log("⚠️  Brave Search MCP server disabled (BRAVE_API_KEY not found)");
-  }
-
-  // PostgreSQL - only if connection string is available
-  if (typeof globalThis.process !== "undefined" && globalThis.process.env?.SUPABASE_URI) {
-    servers.postgres = {
-      name: "Supabase",
-      timeout: 60000,
-      type: "stdio",
-      command: "npx", 
-      args: ["-y", "@modelcontextprotocol/server-postgres"],
-      env: {
-        POSTGRES_CONNECTION_STRING: globalThis.process.env.SUPABASE_URI ?? "",
-      },
-    };
-    console.log("✅ Supabase MCP server enabled");
-  } else {
-    console.log("⚠️  Supabase MCP server disabled (SUPABASE_URI not found)");
+export type MCPTool = BaseTool;
+
+/**
+ * Resource published by an MCP server
+ */
+export interface MCPResource {
+  serverKey: string;
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType?: string;
+}
+
+/**
+ * Content of a resource read from an MCP server (`blob` is base64 encoded)
+ */
+export interface MCPResourceContent {
+  uri: string;
+  mimeType?: string;
+  text?: string;
+  blob?: string;
+}
+
+/**
+ * Prompt template published by an MCP server
+ */
+export interface MCPPrompt {
+  serverKey: string;
+  name: string;
+  description?: string;
+  arguments: Array<{ name: string; description?: string; required?: boolean }>;
+}
+
+/**
+ * Prompt rendered by an MCP server. Non-text message content is kept as JSON.
+ */
+export interface MCPPromptResult {
+  description?: string;
+  messages: Array<{ role: "user" | "assistant"; text: string }>;
+}
+
+/**
+ * Minimal agent surface needed to attach MCP tools after construction
+ */
+export interface MCPToolTarget {
+  readonly name: string;
+  addItems(items: BaseTool[]): unknown;
+  getTools(): BaseTool[];
+}
+
+/**
+ * Which MCP servers/tools an agent asked for and actually received
+ */
+export interface AgentToolReport {
+  agentName: string;
+  requestedServers: string[];
+  toolsByServer: Record<string, number>;
+  toolNames: string[];
+  missingServers: string[];
+}
+
+/**
+ * Status of a configured MCP server, as reported by the status API
+ */
+export interface MCPServerStatus {
+  serverKey: string;
+  name: string;
+  category: string;
+  state: MCPServerState;
+  toolCount: number;
+  resourceCount: number;
+  promptCount: number;
+  uptimeMs: number | null;
+  lastError: string | null;
+  lastErrorAt: string | null;
+  lastCheckedAt: string | null;
+  restartCount: number;
+  nextRestartAt: string | null;
+  circuitState: CircuitState;
+}
+
+/**
+ * Server problems detected for an agent's MCP binding
+ */
+export interface AgentServerDiagnostic {
+  agentName: string;
+  /** Requested server keys that are not configured at all */
+  unknownServers: string[];
+  /** Configured servers that are disabled or did not provide any tools */
+  unavailableServers: string[];
+}
+
+/**
+ * Load the server definitions available at startup.
+ * An invalid file is logged and leaves VoltAgent running without MCP servers.
+ */
+function loadInitialServers(): Record<string, MCPServer> {
+  try {
+    return loadMCPServers();
+  } catch (error) {
+    console.error("❌ Failed to load MCP configuration:", error);
+    return {};
   }
-  console.log(`🔧 MCP Configuration: ${Object.keys(servers).length} servers configured`);
-  return servers;
 }
 
 /**
- * Enhanced MCP Configuration with conditional server loading
- * Only includes servers that have required credentials or work without them
+ * The SDK client behind a VoltAgent MCPClient. VoltAgent only wraps tools,
+ * so resources and prompts are requested through the SDK client directly.
+ */
+function getSdkClient(client: MCPClient): Client {
+  return (client as unknown as { client: Client }).client;
+}
+
+/**
+ * MCP server definitions loaded from the configuration file (see mcpConfigFile.ts)
  */
-export const mcpConfig = new MCPConfiguration({
-  servers: createMCPServers(),
-});
+export const mcpServers = loadInitialServers();
 
 /**
  * Enhanced MCP Tools Service with categorized tool management
  */
 export class MCPToolsService {
-  private config: MCPConfiguration;
   private tools: MCPTool[] = [];
+  private servers: Record<string, MCPServer>;
+  private clients: Map<string, MCPClient> = new Map();
+  private health: MCPHealthTracker;
+  private restartTimers: Map<string, ReturnType<typeof setTimeout>> = new Map();
+  private healthTimer?: ReturnType<typeof setInterval>;
+  private toolIndex: Map<string, MCPTool> = new Map();
+  private toolServers: Map<string, string> = new Map();
+  private circuitBreakers: Map<string, CircuitBreaker> = new Map();
+  private resultCache = new MCPResultCache();
+  private toolsByServer: Map<string, MCPTool[]> = new Map();
   private toolsByCategory: Map<string, MCPTool[]> = new Map();
+  private resourcesByServer: Map<string, MCPResource[]> = new Map();
+  private promptsByServer: Map<string, MCPPrompt[]> = new Map();
   private initialized = false;
+  private initializing?: Promise<MCPTool[]>;
+  private agentBindings: Map<MCPToolTarget, string[]> = new Map();
+  private stopWatchingConfig?: () => void;
+  private configUpdates: Promise<unknown> = Promise.resolve();
 
-  constructor(config: MCPConfiguration = mcpConfig) {
-    this.config = config;
+  constructor(servers: Record<string, MCPServer> = mcpServers, healthOptions: Partial<MCPHealthOptions> = {}) {
+    this.servers = servers;
+    this.health = new MCPHealthTracker(healthOptions);
   }
   /**
-   * Initialize and categorize all MCP tools
+   * Initialize and categorize all MCP tools.
+   * Concurrent callers share the same in-flight initialization.
    */
   async initializeTools(): Promise<MCPTool[]> {
     if (this.initialized) {
       return this.tools;
     }
+    if (!this.initializing) {
+      this.initializing = this.loadTools().finally(() => {
+        this.initializing = undefined;
+      });
+    }
+    return this.initializing;
+  }
 
+  /**
+   * Load tools from every enabled server and attach them to bound agents
+   */
+  private async loadTools(): Promise<MCPTool[]> {
     try {
       console.log("🔧 Initializing MCP tools from servers...");
-      this.tools = await this.config.getTools();
+      this.toolsByServer.clear();
+      await Promise.all(this.getEnabledServerKeys().map((serverKey) => this.loadServer(serverKey)));
       
-      // Categorize tools by server type
+      // Group tools by the server they came from and its declared category
       this.categorizeTools();
       
-      console.log(`✅ Initialized ${this.tools.length} MCP tools from ${this.toolsByCategory.size} categories`);
+      console.log(`✅ Initialized ${this.tools.length} MCP tools from ${this.toolsByServer.size} servers`);
       this.logToolsSummary();
       
       this.initialized = true;
+      this.attachBoundTools();
       return this.tools;
     } catch (error) {
       console.error("❌ Failed to initialize MCP tools:", error);
@@ -222,21 +213,636 @@ export class MCPToolsService {
     }
   }
 
+  /**
+   * Connect to a single server and store its tools (never throws).
+   * A server that fails to start is marked down and retried with backoff.
+   */
+  private async loadServer(serverKey: string): Promise<MCPTool[]> {
+    const server = this.servers[serverKey];
+    if (!server || server.disabled) {
+      this.toolsByServer.delete(serverKey);
+      this.clearServerCatalog(serverKey);
+      this.cancelRestart(serverKey);
+      if (server) {
+        this.health.markDisabled(serverKey);
+      } else {
+        this.health.remove(serverKey);
+      }
+      return [];
+    }
+    if (replayService.isReplaying()) {
+      return this.loadReplayedServer(serverKey);
+    }
+    this.health.markStarting(serverKey);
+    try {
+      const client = this.createClient(serverKey, server);
+      await client.connect();
+      this.clients.set(serverKey, client);
+      const serverTools = Object.values(await client.getAgentTools());
+      this.toolsByServer.set(serverKey, serverTools);
+      replayService.recordServerTools(serverKey, serverTools);
+      await this.loadServerCatalog(serverKey, client);
+      this.health.markHealthy(serverKey);
+      return serverTools;
+    } catch (error) {
+      console.error(`❌ Failed to load tools from MCP server ${serverKey}:`, error);
+      this.toolsByServer.set(serverKey, []);
+      this.clearServerCatalog(serverKey);
+      this.health.markDown(serverKey, error);
+      await this.disconnectServer(serverKey);
+      this.scheduleRestart(serverKey);
+      return [];
+    }
+  }
+
+  /**
+   * Offer the tools a fixture recorded for a server, answered from the fixture instead
+   * of a live server. Servers the fixture does not know are left without tools.
+   */
+  private loadReplayedServer(serverKey: string): MCPTool[] {
+    const recorded = replayService.getServerTools(serverKey);
+    if (!recorded) {
+      this.toolsByServer.set(serverKey, []);
+      this.health.markDisabled(serverKey);
+      return [];
+    }
+    const serverTools = recorded.map((tool) => createTool({
+      name: tool.name,
+      description: tool.description ?? "",
+      // The replayed model produces the arguments, so any object is accepted
+      parameters: z.object({}).passthrough(),
+      execute: (args) => replayService.replayToolCall(tool.name, args),
+    }));
+    this.toolsByServer.set(serverKey, serverTools);
+    this.health.markHealthy(serverKey);
+    return serverTools;
+  }
+
+  /**
+   * List the resources and prompts a server advertises. Failures are logged and
+   * leave the server running with tools only.
+   */
+  private async loadServerCatalog(serverKey: string, client: MCPClient): Promise<void> {
+    const sdkClient = getSdkClient(client);
+    const capabilities = sdkClient.getServerCapabilities();
+    const timeout = this.getRequestTimeout(serverKey);
+    this.clearServerCatalog(serverKey);
+
+    if (capabilities?.resources) {
+      try {
+        const resources: MCPResource[] = [];
+        let cursor: string | undefined;
+        do {
+          const page = await sdkClient.listResources(cursor ? { cursor } : undefined, { timeout });
+          resources.push(...page.resources.map((resource) => ({
+            serverKey,
+            uri: resource.uri,
+            name: resource.name,
+            description: resource.description,
+            mimeType: resource.mimeType,
+          })));
+          cursor = page.nextCursor;
+        } while (cursor);
+        this.resourcesByServer.set(serverKey, resources);
+      } catch (error) {
+        console.warn(`⚠️  Could not list resources of MCP server ${serverKey}:`, error instanceof Error ? error.message : error);
+      }
+    }
+
+    if (capabilities?.prompts) {
+      try {
+        const prompts: MCPPrompt[] = [];
+        let cursor: string | undefined;
+        do {
+          const page = await sdkClient.listPrompts(cursor ? { cursor } : undefined, { timeout });
+          prompts.push(...page.prompts.map((prompt) => ({
+            serverKey,
+            name: prompt.name,
+            description: prompt.description,
+            arguments: prompt.arguments ?? [],
+          })));
+          cursor = page.nextCursor;
+        } while (cursor);
+        this.promptsByServer.set(serverKey, prompts);
+      } catch (error) {
+        console.warn(`⚠️  Could not list prompts of MCP server ${serverKey}:`, error instanceof Error ? error.message : error);
+      }
+    }
+  }
+
+  /**
+   * Forget the resources and prompts of a server
+   */
+  private clearServerCatalog(serverKey: string): void {
+    this.resourcesByServer.delete(serverKey);
+    this.promptsByServer.delete(serverKey);
+  }
+
+  /**
+   * Request timeout for non-tool requests (resources, prompts) to a server
+   */
+  private getRequestTimeout(serverKey: string): number {
+    const server = this.servers[serverKey];
+    return server?.policy?.timeoutMs ?? server?.timeout ?? DEFAULT_CALL_POLICY.timeoutMs;
+  }
+
+  /**
+   * Connected client of a server, or an error explaining why there is none
+   */
+  private getConnectedClient(serverKey: string): MCPClient {
+    const client = this.clients.get(serverKey);
+    if (!client) {
+      throw new Error(`MCP server "${serverKey}" is not connected (it is disabled, removed or offline)`);
+    }
+    return client;
+  }
+
+  /**
+   * Each server gets its own client so it can be restarted on its own
+   */
+  private createClient(serverKey: string, server: MCPServer): MCPClient {
+    // The request timeout must not cut off calls that a policy allows to run longer
+    const requestTimeout = Math.max(
+      server.timeout ?? DEFAULT_CALL_POLICY.timeoutMs,
+      server.policy?.timeoutMs ?? 0,
+      ...Object.values(server.policy?.tools ?? {}).map((policy) => policy.timeoutMs ?? 0),
+    );
+    const clientConfig: MCPServerConfig = isRemoteServer(server)
+      ? server.type === "streamable-http"
+        ? {
+            type: server.type,
+            url: server.url,
+            requestInit: { headers: buildRemoteHeaders(server) },
+            sessionId: server.sessionId,
+            timeout: requestTimeout,
+          }
+        : {
+            type: server.type,
+            url: server.url,
+            requestInit: { headers: buildRemoteHeaders(server) },
+            timeout: requestTimeout,
+          }
+      : {
+          type: server.type,
+          command: server.command,
+          args: server.args,
+          env: server.env,
+          cwd: server.cwd,
+          timeout: requestTimeout,
+        };
+    const client = new MCPClient({
+      clientInfo: { name: serverKey, version: "1.0.0" },
+      server: clientConfig,
+      timeout: requestTimeout,
+    });
+
+    // A client that closes while still registered has crashed (intentional disconnects unregister first)
+    client.on("disconnect", () => {
+      if (this.clients.get(serverKey) === client) {
+        this.handleServerCrash(
+          serverKey,
+          new Error(isRemoteServer(server) ? "MCP server connection closed" : "MCP server process exited"),
+        );
+      }
+    });
+    client.on("error", (error) => {
+      console.error(`❌ MCP server ${serverKey} error:`, error);
+    });
+    return client;
+  }
+
+  /**
+   * Disconnect a server's client, if any
+   */
+  private async disconnectServer(serverKey: string): Promise<void> {
+    const client = this.clients.get(serverKey);
+    this.clients.delete(serverKey);
+    if (client) {
+      await client.disconnect().catch((error) => {
+        console.error(`❌ Failed to disconnect MCP server ${serverKey}:`, error);
+      });
+    }
+  }
+
+  /**
+   * Drop the tools of a crashed or hung server and schedule a restart
+   */
+  private handleServerCrash(serverKey: string, error: unknown): void {
+    console.error(`❌ MCP server ${serverKey} is down:`, error instanceof Error ? error.message : error);
+    this.health.markDown(serverKey, error);
+    this.toolsByServer.set(serverKey, []);
+    this.clearServerCatalog(serverKey);
+    this.categorizeTools();
+    this.disconnectServer(serverKey).finally(() => this.scheduleRestart(serverKey));
+  }
+
+  /**
+   * Restart a server after an exponentially growing delay
+   */
+  private scheduleRestart(serverKey: string): void {
+    if (this.restartTimers.has(serverKey) || !this.isServerEnabled(serverKey)) {
+      return;
+    }
+    const delay = this.health.scheduleRestart(serverKey);
+    console.log(`🔄 Restarting MCP server ${serverKey} in ${delay}ms`);
+    const timer = setTimeout(() => {
+      this.restartTimers.delete(serverKey);
+      this.reinitialize(serverKey).catch((error) => {
+        console.error(`❌ Failed to restart MCP server ${serverKey}:`, error);
+      });
+    }, delay);
+    timer.unref?.();
+    this.restartTimers.set(serverKey, timer);
+  }
+
+  /**
+   * Cancel a pending restart
+   */
+  private cancelRestart(serverKey: string): void {
+    const timer = this.restartTimers.get(serverKey);
+    if (timer) {
+      clearTimeout(timer);
+      this.restartTimers.delete(serverKey);
+    }
+  }
+
+  /**
+   * Probe a connected server by listing its tools. Slow or failed probes degrade
+   * the server; repeated failures mark it down and restart it.
+   */
+  async checkServerHealth(serverKey: string): Promise<MCPServerState | undefined> {
+    const client = this.clients.get(serverKey);
+    if (!client) {
+      return this.health.get(serverKey)?.state;
+    }
+    try {
+      await withTimeout(
+        client.listTools(),
+        this.health.options.probeTimeoutMs,
+        `Health check timed out after ${this.health.options.probeTimeoutMs}ms`,
+      );
+      this.health.markHealthy(serverKey);
+    } catch (error) {
+      if (this.clients.get(serverKey) !== client) {
+        return this.health.get(serverKey)?.state;
+      }
+      if (this.health.markProbeFailure(serverKey, error)) {
+        this.handleServerCrash(serverKey, error);
+      } else {
+        console.warn(`⚠️  MCP server ${serverKey} degraded:`, error instanceof Error ? error.message : error);
+      }
+    }
+    return this.health.get(serverKey)?.state;
+  }
+
+  /**
+   * Load all MCP tools, then keep probing servers so crashed ones are restarted.
+   * Importing this module starts nothing; entry points call this explicitly.
+   */
+  async start(): Promise<MCPTool[]> {
+    const tools = await this.initializeTools();
+    if (!this.healthTimer) {
+      this.startHealthChecks();
+    }
+    return tools;
+  }
+
+  /**
+   * Periodically probe every connected server (does not keep the process alive)
+   */
+  startHealthChecks(intervalMs = this.health.options.probeIntervalMs): void {
+    this.stopHealthChecks();
+    this.healthTimer = setInterval(() => {
+      for (const serverKey of this.clients.keys()) {
+        this.checkServerHealth(serverKey).catch((error) => {
+          console.error(`❌ Health check failed for MCP server ${serverKey}:`, error);
+        });
+      }
+    }, intervalMs);
+    this.healthTimer.unref?.();
+  }
+
+  /**
+   * Stop the health check job
+   */
+  stopHealthChecks(): void {
+    if (this.healthTimer) {
+      clearInterval(this.healthTimer);
+      this.healthTimer = undefined;
+    }
+  }
+
+  /**
+   * Status of every configured server
+   */
+  getServerStatuses(): MCPServerStatus[] {
+    const toIso = (time?: number) => (time ? new Date(time).toISOString() : null);
+    return this.getServerKeys().map((serverKey) => {
+      const health = this.health.get(serverKey);
+      const state: MCPServerState = !this.isServerEnabled(serverKey) ? "disabled" : health?.state ?? "starting";
+      return {
+        serverKey,
+        name: this.servers[serverKey].name,
+        category: this.getServerCategory(serverKey),
+        state,
+        toolCount: this.getToolsByServer(serverKey).length,
+        resourceCount: this.getResources(serverKey).length,
+        promptCount: this.getPrompts(serverKey).length,
+        uptimeMs: health?.startedAt ? Date.now() - health.startedAt : null,
+        lastError: health?.lastError ?? null,
+        lastErrorAt: toIso(health?.lastErrorAt),
+        lastCheckedAt: toIso(health?.lastCheckedAt),
+        restartCount: health?.restartCount ?? 0,
+        nextRestartAt: toIso(health?.nextRestartAt),
+        circuitState: this.circuitBreakers.get(serverKey)?.state ?? "closed",
+      };
+    });
+  }
+
+  /**
+   * Bind an agent to MCP servers. Tools already loaded are attached now, and tools
+   * loaded by later (re)initializations are attached as they come online.
+   */
+  bindAgentTools(agent: MCPToolTarget, serverNames: string[]): void {
+    this.agentBindings.set(agent, serverNames);
+    this.attachTools(agent, serverNames);
+  }
+
+  /**
+   * Attach the tools of the given servers that the agent does not have yet.
+   * Tools of `refreshServers` are re-attached so schema changes are picked up.
+   */
+  private attachTools(agent: MCPToolTarget, serverNames: string[], refreshServers?: Set<string>): void {
+    const existing = new Set(agent.getTools().map((tool) => tool.name));
+    const pending = this.getToolsForAgent(serverNames, agent.name)
+      .filter((tool) => !existing.has(tool.name) || refreshServers?.has(this.toolServers.get(tool.name) ?? ""));
+    if (pending.length > 0) {
+      agent.addItems(pending.map((tool) => this.createBoundTool(tool, agent.name)));
+      console.log(`🔧 Attached ${pending.length} MCP tools to ${agent.name}`);
+    }
+  }
+
+  /**
+   * Agents receive a wrapper that resolves the live tool on every call, so a
+   * reloaded server is used immediately and a removed one fails cleanly.
+   * Calls are checked against the agent's access policy.
+   */
+  private createBoundTool(tool: MCPTool, agentName: string): MCPTool {
+    return createTool({
+      name: tool.name,
+      description: tool.description,
+      parameters: tool.parameters,
+      execute: (args, options) => this.executeTool(tool.name, args, options, agentName),
+    });
+  }
+
+  /**
+   * Execute the currently loaded version of an MCP tool under its server's
+   * timeout, retry and circuit-breaker policy. Tools that require approval wait
+   * for the user's decision first, even when the result is cached. Idempotent
+   * tools with a cache TTL are then served from the shared result cache; cached
+   * results are recorded in replay fixtures like live ones. The outcome is queued on the
+   * operation's userContext so onToolEnd hooks can report it.
+   * With `agentName` the call is first checked against that agent's access policy.
+   */
+  async executeTool(toolName: string, args: unknown, options?: ToolExecuteOptions, agentName?: string): Promise<unknown> {
+    const tool = this.toolIndex.get(toolName);
+    const serverKey = this.toolServers.get(toolName);
+    if (!tool || !serverKey) {
+      throw new Error(`MCP tool "${toolName}" is not available (its server is disabled, removed or offline)`);
+    }
+    if (agentName) {
+      this.enforceAccess(agentName, toolName, args, options);
+    }
+    const server = this.servers[serverKey];
+    const localName = toolName.slice(serverKey.length + 1);
+    const policy = resolveCallPolicy(server, localName);
+    const cacheable = policy.idempotent && policy.cacheTtlMs > 0;
+
+    const approvedBy = policy.requiresApproval
+      ? await this.awaitApproval(toolName, serverKey, args, options, agentName)
+      : undefined;
+
+    // Replays read every call from the fixture, cache hits included
+    const cached = cacheable && !replayService.isReplaying() ? this.resultCache.get(toolName, args) : undefined;
+    if (cached) {
+      const cachedOutcome: MCPCallOutcome = {
+        toolName,
+        serverKey,
+        status: "success",
+        attempts: 0,
+        durationMs: 0,
+        timeoutMs: policy.timeoutMs,
+        circuitState: this.getCircuitBreaker(serverKey).state,
+        cached: true,
+      };
+      this.recordOutcome(approvedBy ? { ...cachedOutcome, approvedBy } : cachedOutcome, options);
+      return replayService.recordToolCall(toolName, args, async () => cached.result);
+    }
+
+    const { outcome, result, error } = await executeWithPolicy(
+      () => replayService.recordToolCall(toolName, args, () => tool.execute(args, options)),
+      policy,
+      this.getCircuitBreaker(serverKey),
+      { toolName, serverKey },
+    );
+    // A failed write may still have changed something, so invalidate either way
+    if (policy.invalidates.length > 0) {
+      this.resultCache.invalidate(serverKey, policy.invalidates, policy.invalidateScope, args);
+    }
+    if (cacheable && !error) {
+      this.resultCache.set(toolName, { serverKey, localName }, args, result, policy.cacheTtlMs);
+    }
+    this.recordOutcome(approvedBy ? { ...outcome, approvedBy } : outcome, options);
+    if (error) {
+      throw error;
+    }
+    return result;
+  }
+
+  /**
+   * Ask the user of the current conversation to approve a call. Returns who
+   * approved it; a rejection is recorded as a "rejected" outcome and thrown.
+   */
+  private async awaitApproval(
+    toolName: string,
+    serverKey: string,
+    args: unknown,
+    options?: ToolExecuteOptions,
+    agentName?: string,
+  ): Promise<string> {
+    const { userId, sessionId } = contextService.getSessionInfo();
+    const decision = await toolApprovalService.requestApproval(
+      { toolName, serverKey, agentName, args, userId, conversationId: sessionId },
+      options?.abortController?.signal ?? options?.signal,
+    );
+    const userContext = options?.operationContext?.userContext;
+    if (userContext) {
+      appendToolApproval(userContext, {
+        requestId: decision.id,
+        toolName,
+        agentName,
+        approved: decision.approved,
+        decidedBy: decision.decidedBy,
+        reason: decision.reason,
+      });
+    }
+    if (decision.approved) {
+      return decision.decidedBy;
+    }
+
+    const message = `${toolName} was rejected by ${decision.decidedBy}${decision.reason ? `: ${decision.reason}` : ""}`;
+    this.recordOutcome({
+      toolName,
+      serverKey,
+      status: "rejected",
+      attempts: 0,
+      durationMs: 0,
+      timeoutMs: resolveCallPolicy(this.servers[serverKey], toolName.slice(serverKey.length + 1)).timeoutMs,
+      circuitState: this.getCircuitBreaker(serverKey).state,
+      error: message,
+    }, options);
+    throw new Error(message);
+  }
+
+  /**
+   * Reject a call the agent's access policy does not allow. The rejection is
+   * queued as a "denied" outcome so hooks record it like any other tool failure.
+   */
+  enforceAccess(agentName: string, toolName: string, args: unknown, options?: ToolExecuteOptions): void {
+    const violation = toolAccessService.checkCall(agentName, toolName, args);
+    if (!violation) {
+      return;
+    }
+    const serverKey = this.toolServers.get(toolName) ?? "";
+    this.recordOutcome({
+      toolName,
+      serverKey,
+      status: "denied",
+      attempts: 0,
+      durationMs: 0,
+      timeoutMs: resolveCallPolicy(this.servers[serverKey], toolName.slice(serverKey.length + 1)).timeoutMs,
+      circuitState: this.getCircuitBreaker(serverKey).state,
+      error: violation,
+    }, options);
+    throw new Error(violation);
+  }
+
+  /**
+   * Counters of the shared tool result cache
+   */
+  getCacheStats(): MCPCacheStats {
+    return this.resultCache.getStats();
+  }
+
+  /**
+   * Circuit breaker shared by all tools of a server
+   */
+  private getCircuitBreaker(serverKey: string): CircuitBreaker {
+    let breaker = this.circuitBreakers.get(serverKey);
+    if (!breaker) {
+      breaker = new CircuitBreaker(this.servers[serverKey]?.policy?.circuitBreaker);
+      this.circuitBreakers.set(serverKey, breaker);
+    }
+    return breaker;
+  }
+
+  /**
+   * Make a call outcome visible to hooks and logs
+   */
+  private recordOutcome(outcome: MCPCallOutcome, options?: ToolExecuteOptions): void {
+    if (outcome.status === "denied" || outcome.status === "rejected") {
+      console.warn(`🚫 ${outcome.error}`);
+    } else if (outcome.status !== "success") {
+      console.warn(`⚠️  MCP tool ${outcome.toolName} ${outcome.status} after ${outcome.attempts} attempt(s): ${outcome.error}`);
+    }
+    const userContext = options?.operationContext?.userContext;
+    if (userContext) {
+      try {
+        appendToolCallOutcome(userContext, {
+          ...outcome,
+          toolCallId: typeof options?.toolCallId === "string" ? options.toolCallId : undefined,
+        });
+      } catch (error) {
+        console.error("❌ Failed to record MCP tool outcome:", error);
+      }
+    }
+  }
+
+  /**
+   * Re-attach tools for every bound agent
+   */
+  private attachBoundTools(refreshServers?: Set<string>): void {
+    for (const [agent, serverNames] of this.agentBindings.entries()) {
+      try {
+        this.attachTools(agent, serverNames, refreshServers);
+      } catch (error) {
+        console.error(`❌ Failed to attach MCP tools to ${agent.name}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Report the servers and tools each bound agent ended up with
+   */
+  getAgentToolReport(): AgentToolReport[] {
+    return Array.from(this.agentBindings.entries()).map(([agent, serverNames]) => {
+      const attached = new Set(agent.getTools().map((tool) => tool.name));
+      const toolsByServer: Record<string, number> = {};
+      const toolNames: string[] = [];
+      for (const serverName of serverNames) {
+        const serverTools = this.getToolsByServer(serverName).filter((tool) => attached.has(tool.name));
+        toolsByServer[serverName] = serverTools.length;
+        toolNames.push(...serverTools.map((tool) => tool.name));
+      }
+      return {
+        agentName: agent.name,
+        requestedServers: serverNames,
+        toolsByServer,
+        toolNames,
+        missingServers: serverNames.filter((serverName) => toolsByServer[serverName] === 0),
+      };
+    });
+  }
   
 
   /**
-   * Categorize tools by their originating server name.
-   * Assumes tool names are namespaced, e.g., 'filesystem_read_file'.
+   * Flag bound agents that request servers which are not configured,
+   * or configured servers that did not provide any tools
+   */
+  getAgentDiagnostics(): AgentServerDiagnostic[] {
+    const configured = new Set(this.getServerKeys());
+    return Array.from(this.agentBindings.entries())
+      .map(([agent, serverNames]) => ({
+        agentName: agent.name,
+        unknownServers: serverNames.filter((serverName) => !configured.has(serverName)),
+        unavailableServers: serverNames.filter(
+          (serverName) => configured.has(serverName) &&
+            (!this.isServerEnabled(serverName) || this.getToolsByServer(serverName).length === 0)
+        ),
+      }))
+      .filter((entry) => entry.unknownServers.length > 0 || entry.unavailableServers.length > 0);
+  }
+
+  /**
+   * Rebuild the flat tool list, the name index and the category index
+   * from the per-server tool lists. A server's category defaults to its key.
    */
   private categorizeTools(): void {
+    this.tools = [];
+    this.toolIndex.clear();
+    this.toolServers.clear();
     this.toolsByCategory.clear();
-    for (const tool of this.tools) {
-      // Assumes tool name is in format 'serverName_toolAction'
-      const parts = tool.name?.split('_');
-      const category = parts && parts.length > 1 ? parts[0] : 'general';
+    for (const [serverKey, serverTools] of this.toolsByServer.entries()) {
+      this.tools.push(...serverTools);
+      for (const tool of serverTools) {
+        this.toolIndex.set(tool.name, tool);
+        this.toolServers.set(tool.name, serverKey);
+      }
 
+      const category = this.getServerCategory(serverKey);
       const existingTools = this.toolsByCategory.get(category) || [];
-      existingTools.push(tool);
+      existingTools.push(...serverTools);
       this.toolsByCategory.set(category, existingTools);
     }
   }
@@ -246,10 +852,64 @@ export class MCPToolsService {
    */
   private logToolsSummary(): void {
     console.log("📊 MCP Tools Summary:");
-    for (const [category, tools] of this.toolsByCategory.entries()) {
-      console.log(`   ${category}: ${tools.length} tools`);
+    for (const [serverKey, tools] of this.toolsByServer.entries()) {
+      const resources = this.getResources(serverKey).length;
+      const prompts = this.getPrompts(serverKey).length;
+      const extras = resources || prompts ? `, ${resources} resources, ${prompts} prompts` : "";
+      console.log(`   ${serverKey} (${this.getServerCategory(serverKey)}): ${tools.length} tools${extras}`);
     }
   }
+
+  /**
+   * Keys of every configured server (enabled or not)
+   */
+  getServerKeys(): string[] {
+    return Object.keys(this.servers);
+  }
+
+  /**
+   * Keys of the servers that should be connected
+   */
+  getEnabledServerKeys(): string[] {
+    return this.getServerKeys().filter((serverKey) => this.isServerEnabled(serverKey));
+  }
+
+  /**
+   * Check if a server is configured and not disabled
+   */
+  isServerEnabled(serverKey: string): boolean {
+    const server = this.servers[serverKey];
+    return !!server && !server.disabled;
+  }
+
+  /**
+   * Declared category of a configured server
+   */
+  getServerCategory(serverKey: string): string {
+    return this.servers[serverKey]?.category ?? serverKey;
+  }
+
+  /**
+   * Get tools loaded from a configured server (safe - never throws)
+   */
+  getToolsByServer(serverKey: string): MCPTool[] {
+    return this.toolsByServer.get(serverKey) || [];
+  }
+
+  /**
+   * Get a loaded tool by its full name (safe - never throws)
+   */
+  getTool(toolName: string): MCPTool | undefined {
+    return this.toolIndex.get(toolName);
+  }
+
+  /**
+   * Key of the server a loaded tool came from (safe - never throws)
+   */
+  getToolServer(toolName: string): string | undefined {
+    return this.toolServers.get(toolName);
+  }
+
   /**
    * Get all tools (safe - never throws)
    */
@@ -258,7 +918,7 @@ export class MCPToolsService {
   }
 
   /**
-   * Get tools by category (safe - never throws)
+   * Get tools by declared server category (safe - never throws)
    */
   getToolsByCategory(category: string): MCPTool[] {
     return this.toolsByCategory.get(category) || [];
@@ -304,11 +964,7 @@ export class MCPToolsService {
    * Get git/version control tools
    */
   getGitTools(): MCPTool[] {
-    return [
-      ...this.getToolsByCategory('git'),
-      ...this.getToolsByCategory('github'),
-      ...this.getToolsByCategory('gitlab')
-    ];
+    return this.getToolsByCategory('git');
   }
 
   /**
@@ -340,14 +996,15 @@ export class MCPToolsService {
   }
 
   /**
-   * Get tools for a specific agent by providing an array of server names
+   * Get tools for a specific agent by providing an array of server keys.
+   * With `agentName` tools denied by the agent's access policy are left out.
    */
-  getToolsForAgent(serverNames: string[]): MCPTool[] {
+  getToolsForAgent(serverNames: string[], agentName?: string): MCPTool[] {
     let agentTools: MCPTool[] = [];
     for (const serverName of serverNames) {
-      agentTools = [...agentTools, ...this.getToolsByCategory(serverName)];
+      agentTools = [...agentTools, ...this.getToolsByServer(serverName)];
     }
-    return agentTools;
+    return agentName ? agentTools.filter((tool) => toolAccessService.isToolAllowed(agentName, tool.name)) : agentTools;
   }
   /**
    * Search tools by name or description (safe - never throws)
@@ -364,14 +1021,91 @@ export class MCPToolsService {
     );
   }
 
+  /**
+   * Get resources listed by one server, or by every server (safe - never throws)
+   */
+  getResources(serverKey?: string): MCPResource[] {
+    if (serverKey !== undefined) {
+      return this.resourcesByServer.get(serverKey) || [];
+    }
+    return Array.from(this.resourcesByServer.values()).flat();
+  }
+
+  /**
+   * Read a resource from the server that published it
+   */
+  async readResource(serverKey: string, uri: string): Promise<MCPResourceContent[]> {
+    const client = this.getConnectedClient(serverKey);
+    const result = await getSdkClient(client).readResource({ uri }, { timeout: this.getRequestTimeout(serverKey) });
+    return result.contents.map((content) => ({
+      uri: content.uri,
+      mimeType: content.mimeType,
+      text: "text" in content ? content.text : undefined,
+      blob: "blob" in content ? content.blob : undefined,
+    }));
+  }
+
+  /**
+   * Search resources by uri, name or description. Results are ranked by the
+   * number of query words they contain (safe - never throws).
+   */
+  searchResources(query: string, limit = 5): MCPResource[] {
+    const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+    if (words.length === 0) {
+      return [];
+    }
+    return this.getResources()
+      .map((resource) => {
+        const haystack = `${resource.uri} ${resource.name} ${resource.description ?? ""}`.toLowerCase();
+        return { resource, score: words.filter((word) => haystack.includes(word)).length };
+      })
+      .filter(({ score }) => score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit)
+      .map(({ resource }) => resource);
+  }
+
+  /**
+   * Get prompt templates listed by one server, or by every server (safe - never throws)
+   */
+  getPrompts(serverKey?: string): MCPPrompt[] {
+    if (serverKey !== undefined) {
+      return this.promptsByServer.get(serverKey) || [];
+    }
+    return Array.from(this.promptsByServer.values()).flat();
+  }
+
+  /**
+   * Render a prompt template on the server that published it
+   */
+  async getPrompt(serverKey: string, name: string, args: Record<string, string> = {}): Promise<MCPPromptResult> {
+    const client = this.getConnectedClient(serverKey);
+    const result = await getSdkClient(client).getPrompt(
+      { name, arguments: args },
+      { timeout: this.getRequestTimeout(serverKey) },
+    );
+    return {
+      description: result.description,
+      messages: result.messages.map((message) => ({
+        role: message.role,
+        text: message.content.type === "text" ? message.content.text : JSON.stringify(message.content),
+      })),
+    };
+  }
+
   /**
    * Get tool statistics
    */
   getStats(): {
     totalTools: number;
+    serversCount: number;
+    cache: MCPCacheStats;
+    resourcesCount: number;
+    promptsCount: number;
     categoriesCount: number;
     categories: Record<string, number>;
     topCategories: Array<{ category: string; count: number }>;
+    servers: MCPServerStatus[];
   } {
     const categories: Record<string, number> = {};
     for (const [category, tools] of this.toolsByCategory.entries()) {
@@ -385,9 +1119,14 @@ export class MCPToolsService {
 
     return {
       totalTools: this.tools.length,
+      serversCount: this.toolsByServer.size,
+      cache: this.getCacheStats(),
+      resourcesCount: this.getResources().length,
+      promptsCount: this.getPrompts().length,
       categoriesCount: this.toolsByCategory.size,
       categories,
-      topCategories
+      topCategories,
+      servers: this.getServerStatuses()
     };
   }
 
@@ -399,33 +1138,82 @@ export class MCPToolsService {
   }
 
   /**
-   * Reinitialize tools (useful for config changes)
+   * Reinitialize tools (useful for config changes).
+   * With a server key only that server is reconnected; other servers keep running.
    */
-  async reinitialize(): Promise<MCPTool[]> {
-    this.initialized = false;
-    this.tools = [];
-    this.toolsByCategory.clear();
-    return this.initializeTools();
-  }
-}
+  async reinitialize(serverKey?: string): Promise<MCPTool[]> {
+    if (serverKey === undefined) {
+      for (const key of this.restartTimers.keys()) {
+        this.cancelRestart(key);
+      }
+      await Promise.all(Array.from(this.clients.keys()).map((key) => this.disconnectServer(key)));
+      this.circuitBreakers.clear();
+      this.resultCache.clear();
+      this.initialized = false;
+      this.tools = [];
+      this.toolIndex.clear();
+      this.toolsByServer.clear();
+      this.toolsByCategory.clear();
+      this.resourcesByServer.clear();
+      this.promptsByServer.clear();
+      return this.initializeTools();
+    }
 
+    await this.initializing;
+    this.cancelRestart(serverKey);
+    this.circuitBreakers.delete(serverKey);
+    this.resultCache.clearServer(serverKey);
+    await this.disconnectServer(serverKey);
+    const serverTools = await this.loadServer(serverKey);
+    this.categorizeTools();
+    this.attachBoundTools(new Set([serverKey]));
+    console.log(`🔄 Reinitialized MCP server ${serverKey}: ${serverTools.length} tools`);
+    return serverTools;
+  }
 
-// Define MCPTool interface for type safety
-interface MCPTool {
-  name: string;
-  description?: string;
-  // ...add other properties as needed...
-}
+  /**
+   * Apply a new set of server definitions, reinitializing only the servers
+   * that were added, removed or changed. Returns the affected server keys.
+   */
+  async updateServers(servers: Record<string, MCPServer>): Promise<string[]> {
+    const previous = this.servers;
+    this.servers = servers;
+    const changed = Array.from(new Set([...Object.keys(previous), ...Object.keys(servers)]))
+      .filter((serverKey) => JSON.stringify(previous[serverKey]) !== JSON.stringify(servers[serverKey]));
 
+    for (const serverKey of changed) {
+      await this.reinitialize(serverKey);
+    }
+    return changed;
+  }
 
-export const toolsets = mcpConfig.getToolsets();
+  /**
+   * Watch the configuration file and apply server changes without a restart
+   */
+  watchConfig(filePath = mcpConfigPath): void {
+    this.stopWatching();
+    this.stopWatchingConfig = watchMCPConfig((servers) => {
+      // Apply edits one after another so quick successive saves cannot interleave
+      this.configUpdates = this.configUpdates
+        .then(() => this.updateServers(servers))
+        .then((changed) => {
+          if (changed.length > 0) {
+            console.log(`✅ Applied MCP configuration changes: ${changed.join(", ")}`);
+          }
+        })
+        .catch((error) => console.error("❌ Failed to apply MCP configuration:", error));
+    }, filePath);
+  }
 
+  /**
+   * Stop watching the configuration file
+   */
+  stopWatching(): void {
+    this.stopWatchingConfig?.();
+    this.stopWatchingConfig = undefined;
+  }
+}
 
 
 // Export singleton instance
 export const mcpToolsService = new MCPToolsService();
-
-// Preload MCP tools on startup
-mcpToolsService.initializeTools().catch(error => console.error("Error initializing MCP tools:", error));
-// Preload MCP tools on startup
-mcpToolsService.initializeTools().catch(error => console.error("Error initializing MCP tools:", error));
@@ -0,0 +1,179 @@
+/**
+ * MCP Tool Result Cache
+ * Shared cache for idempotent tool calls, keyed by tool name and normalized arguments
+ */
+import { isAbsolute, relative, resolve } from "path";
+import { workspaceDir } from "./toolAccess";
+
+/**
+ * Cached result of a single call
+ */
+interface MCPCacheEntry {
+  serverKey: string;
+  /** Tool name without the server prefix, as used in policies */
+  localName: string;
+  args: unknown;
+  result: unknown;
+  expiresAt: number;
+}
+
+/**
+ * Cache counters reported by the status API
+ */
+export interface MCPCacheStats {
+  entries: number;
+  hits: number;
+  misses: number;
+  invalidations: number;
+}
+
+/**
+ * JSON with sorted object keys and trimmed strings, so equivalent arguments share a key
+ */
+export function normalizeArgs(value: unknown): string {
+  const normalize = (item: unknown): unknown => {
+    if (typeof item === "string") {
+      return item.trim();
+    }
+    if (Array.isArray(item)) {
+      return item.map(normalize);
+    }
+    if (item && typeof item === "object") {
+      return Object.fromEntries(
+        Object.keys(item)
+          .sort()
+          .filter((key) => (item as Record<string, unknown>)[key] !== undefined)
+          .map((key) => [key, normalize((item as Record<string, unknown>)[key])]),
+      );
+    }
+    return item;
+  };
+  return JSON.stringify(normalize(value ?? {}));
+}
+
+/**
+ * Path arguments of a call (path-like keys, or values containing a slash), resolved against `root`
+ */
+function getPathArgs(args: unknown, root: string): string[] {
+  if (!args || typeof args !== "object") {
+    return [];
+  }
+  return Object.entries(args)
+    .flatMap(([key, value]) => (Array.isArray(value) ? value : [value]).map((item) => [key, item] as const))
+    .filter((entry): entry is readonly [string, string] =>
+      typeof entry[1] === "string" && (/path|source|destination/i.test(entry[0]) || /[\\/]/.test(entry[1])),
+    )
+    .map(([, value]) => resolve(root, value.trim()));
+}
+
+/**
+ * Check if one resolved path is the same as, inside, or a parent of the other
+ */
+function pathsOverlap(a: string, b: string): boolean {
+  const inside = (child: string, parent: string) => {
+    const path = relative(parent, child);
+    return path === "" || (!path.startsWith("..") && !isAbsolute(path));
+  };
+  return inside(a, b) || inside(b, a);
+}
+
+/**
+ * In-memory result cache with per-entry TTL and a size bound (oldest entries go first).
+ * Results are stored and returned as copies, so callers never share a cached object.
+ * Relative path arguments are resolved against `root` before invalidation compares them.
+ */
+export class MCPResultCache {
+  private entries: Map<string, MCPCacheEntry> = new Map();
+  private hits = 0;
+  private misses = 0;
+  private invalidations = 0;
+
+  constructor(private maxEntries = 500, private root = workspaceDir) {}
+
+  private key(toolName: string, args: unknown): string {
+    return `${toolName}:${normalizeArgs(args)}`;
+  }
+
+  /**
+   * Cached result of a call, if present and not expired
+   */
+  get(toolName: string, args: unknown): { result: unknown } | undefined {
+    const key = this.key(toolName, args);
+    const entry = this.entries.get(key);
+    if (!entry || entry.expiresAt <= Date.now()) {
+      if (entry) {
+        this.entries.delete(key);
+      }
+      this.misses++;
+      return undefined;
+    }
+    this.hits++;
+    return { result: structuredClone(entry.result) };
+  }
+
+  /**
+   * Store the result of a successful call. Results that cannot be copied are not cached.
+   */
+  set(toolName: string, target: { serverKey: string; localName: string }, args: unknown, result: unknown, ttlMs: number): void {
+    let copy: Pick<MCPCacheEntry, "args" | "result">;
+    try {
+      copy = structuredClone({ args, result });
+    } catch {
+      return;
+    }
+    const key = this.key(toolName, args);
+    this.entries.delete(key);
+    this.entries.set(key, { ...target, ...copy, expiresAt: Date.now() + ttlMs });
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      this.entries.delete(oldest);
+    }
+  }
+
+  /**
+   * Drop cached results of a server's tools after a call that may have changed them.
+   * With the "path" scope only results whose path arguments overlap with `args` are dropped.
+   */
+  invalidate(serverKey: string, localNames: string[], scope: "server" | "path", args?: unknown): number {
+    const allTools = localNames.includes("*");
+    const paths = scope === "path" ? getPathArgs(args, this.root) : [];
+    // A call without path arguments could have touched anything
+    const byPath = paths.length > 0;
+    let removed = 0;
+    for (const [key, entry] of this.entries) {
+      if (entry.serverKey !== serverKey || (!allTools && !localNames.includes(entry.localName))) {
+        continue;
+      }
+      if (byPath && !getPathArgs(entry.args, this.root).some((path) => paths.some((other) => pathsOverlap(path, other)))) {
+        continue;
+      }
+      this.entries.delete(key);
+      removed++;
+    }
+    this.invalidations += removed;
+    return removed;
+  }
+
+  /**
+   * Drop every cached result of a server (e.g. after it restarted)
+   */
+  clearServer(serverKey: string): void {
+    for (const [key, entry] of this.entries) {
+      if (entry.serverKey === serverKey) {
+        this.entries.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Drop everything
+   */
+  clear(): void {
+    this.entries.clear();
+  }
+
+  getStats(): MCPCacheStats {
+    return { entries: this.entries.size, hits: this.hits, misses: this.misses, invalidations: this.invalidations };
+  }
+}
@@ -0,0 +1,210 @@
+/* global console */
+/**
+ * MCP Configuration File Loader
+ * Reads MCP server definitions from JSON/YAML with env interpolation and watches the file for changes
+ */
+import { readFileSync, existsSync, watchFile, unwatchFile } from "fs";
+import { resolve, extname } from "path";
+import { parse as parseYaml } from "yaml";
+import { z } from "zod";
+import { getEnvVar } from "./env";
+import { mcpServerPolicySchema } from "./mcpPolicy";
+
+/**
+ * Settings shared by every transport
+ */
+const mcpServerBaseSchema = z.object({
+  name: z.string(),
+  /** Capability group, e.g. both `browser` and `web_search` are "web" servers */
+  category: z.string().optional(),
+  timeout: z.number().int().positive().optional(),
+  /** Accepts booleans or interpolated strings such as "${DISABLE_DOCKER:-false}" */
+  disabled: z.union([z.boolean(), z.string().transform((value) => value.trim().toLowerCase() === "true")]).optional(),
+  /** Environment variables that must be set for the server to be enabled */
+  requiredEnv: z.array(z.string()).optional(),
+  /** Timeout, retry and circuit-breaker policy for tool calls */
+  policy: mcpServerPolicySchema.optional(),
+});
+
+/**
+ * Local server started as a child process
+ */
+export const mcpStdioServerSchema = mcpServerBaseSchema.extend({
+  type: z.literal("stdio"),
+  command: z.string(),
+  args: z.array(z.string()).default([]),
+  env: z.record(z.string()).optional(),
+  cwd: z.string().optional(),
+});
+
+/**
+ * Credentials sent with every request to a remote server
+ */
+export const mcpServerAuthSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("bearer"), token: z.string() }),
+  z.object({ type: z.literal("basic"), username: z.string(), password: z.string() }),
+]);
+
+/**
+ * Remote server reached over HTTP. `http` tries streamable HTTP and falls back to SSE.
+ */
+export const mcpRemoteServerSchema = mcpServerBaseSchema.extend({
+  type: z.enum(["http", "sse", "streamable-http"]),
+  /** Checked only for enabled servers, so unset `${VAR}` placeholders do not break the file */
+  url: z.string(),
+  headers: z.record(z.string()).optional(),
+  auth: mcpServerAuthSchema.optional(),
+  /** Resume an existing streamable HTTP session */
+  sessionId: z.string().optional(),
+});
+
+/**
+ * Single MCP server entry as written in the configuration file (`type` defaults to stdio)
+ */
+export const mcpServerSchema = z.preprocess(
+  (value) => (value && typeof value === "object" && !("type" in value) ? { ...value, type: "stdio" } : value),
+  z.discriminatedUnion("type", [mcpStdioServerSchema, mcpRemoteServerSchema]).superRefine((server, ctx) => {
+    if (server.type === "stdio" || server.disabled) {
+      return;
+    }
+    try {
+      new URL(server.url);
+    } catch {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["url"], message: "Invalid url" });
+    }
+    if (server.auth?.type === "bearer" && !server.auth.token) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["auth", "token"], message: "Bearer token is empty" });
+    }
+  }),
+);
+
+/**
+ * Whole MCP configuration file
+ */
+export const mcpConfigFileSchema = z.object({
+  servers: z.record(mcpServerSchema).default({}),
+});
+
+export type MCPServer = z.infer<typeof mcpServerSchema>;
+export type MCPStdioServer = z.infer<typeof mcpStdioServerSchema>;
+export type MCPRemoteServer = z.infer<typeof mcpRemoteServerSchema>;
+
+/**
+ * Check if a server is reached over HTTP rather than started locally
+ */
+export function isRemoteServer(server: MCPServer): server is MCPRemoteServer {
+  return server.type !== "stdio";
+}
+
+/**
+ * Request headers for a remote server, including its auth header
+ */
+export function buildRemoteHeaders(server: MCPRemoteServer): Record<string, string> {
+  const headers = { ...server.headers };
+  if (server.auth?.type === "bearer") {
+    headers.Authorization = `Bearer ${server.auth.token}`;
+  } else if (server.auth?.type === "basic") {
+    headers.Authorization = `Basic ${Buffer.from(`${server.auth.username}:${server.auth.password}`).toString("base64")}`;
+  }
+  return headers;
+}
+
+/**
+ * Default configuration file, overridable with MCP_CONFIG_PATH
+ */
+export const mcpConfigPath = resolve(
+  (typeof globalThis.process !== "undefined" && typeof globalThis.process.cwd === "function")
+    ? globalThis.process.cwd()
+    : ".",
+  getEnvVar("MCP_CONFIG_PATH", "voltagent/config/mcp.servers.yaml") ?? "voltagent/config/mcp.servers.yaml",
+);
+
+/**
+ * Replace `${VAR}` and `${VAR:-default}` in every string of a parsed document
+ */
+export function interpolateEnv<T>(value: T): T {
+  if (typeof value === "string") {
+    return value.replace(/\$\{([A-Za-z_][A-Za-z0-9_]*)(?::-([^}]*))?\}/g, (_match, name: string, fallback?: string) => {
+      const envValue = getEnvVar(name);
+      return envValue !== undefined && envValue !== "" ? envValue : (fallback ?? "");
+    }) as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => interpolateEnv(item)) as T;
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, interpolateEnv(item)]),
+    ) as T;
+  }
+  return value;
+}
+
+/**
+ * Parse configuration text as JSON or YAML (based on the file extension)
+ */
+export function parseMCPConfig(content: string, filePath = mcpConfigPath): Record<string, MCPServer> {
+  const raw = extname(filePath).toLowerCase() === ".json" ? JSON.parse(content) : parseYaml(content);
+  const document = interpolateEnv(raw ?? {});
+
+  // Servers missing required credentials are kept but disabled (before validation,
+  // so settings built from the missing variables are not rejected)
+  const rawServers = (document as { servers?: Record<string, { name?: string; disabled?: unknown; requiredEnv?: unknown }> })?.servers;
+  for (const server of Object.values(rawServers ?? {})) {
+    const required = Array.isArray(server?.requiredEnv) ? server.requiredEnv.filter((name) => typeof name === "string") : [];
+    const missing = required.filter((name) => !getEnvVar(name));
+    if (missing.length > 0 && server.disabled !== true && server.disabled !== "true") {
+      server.disabled = true;
+      console.log(`⚠️  ${server.name} MCP server disabled (${missing.join(", ")} not found)`);
+    }
+  }
+
+  const result = mcpConfigFileSchema.safeParse(document);
+  if (!result.success) {
+    const issues = result.error.issues
+      .map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`)
+      .join("; ");
+    throw new Error(`Invalid MCP configuration in ${filePath}: ${issues}`);
+  }
+  return result.data.servers;
+}
+
+/**
+ * Load MCP servers from a configuration file. A missing file yields no servers.
+ */
+export function loadMCPServers(filePath = mcpConfigPath): Record<string, MCPServer> {
+  if (!existsSync(filePath)) {
+    console.warn(`⚠️  MCP configuration file not found: ${filePath}`);
+    return {};
+  }
+  const servers = parseMCPConfig(readFileSync(filePath, "utf8"), filePath);
+  const enabled = Object.values(servers).filter((server) => !server.disabled).length;
+  console.log(`🔧 MCP Configuration: ${enabled}/${Object.keys(servers).length} servers enabled (${filePath})`);
+  return servers;
+}
+
+/**
+ * Watch a configuration file and report each successfully parsed version.
+ * Invalid edits are logged and ignored so the last good configuration stays active.
+ * Returns a function that stops watching.
+ */
+export function watchMCPConfig(
+  onChange: (servers: Record<string, MCPServer>) => void,
+  filePath = mcpConfigPath,
+  intervalMs = 1000,
+): () => void {
+  const listener = (current: { mtimeMs: number }, previous: { mtimeMs: number }) => {
+    if (current.mtimeMs === previous.mtimeMs) {
+      return;
+    }
+    try {
+      console.log(`🔄 MCP configuration changed: ${filePath}`);
+      onChange(loadMCPServers(filePath));
+    } catch (error) {
+      console.error("❌ Ignoring invalid MCP configuration:", error);
+    }
+  };
+  const watcher = watchFile(filePath, { interval: intervalMs, persistent: false }, listener);
+  watcher.unref?.();
+  return () => unwatchFile(filePath, listener);
+}
@@ -0,0 +1,179 @@
+/**
+ * MCP Server Health Tracking
+ * Per-server state machine (starting/healthy/degraded/down) with exponential restart backoff
+ */
+
+/**
+ * Lifecycle state of a configured MCP server
+ */
+export type MCPServerState = "starting" | "healthy" | "degraded" | "down" | "disabled";
+
+/**
+ * Health check and restart settings
+ */
+export interface MCPHealthOptions {
+  /** Interval between health probes */
+  probeIntervalMs: number;
+  /** A probe that takes longer than this counts as a failure (hung server) */
+  probeTimeoutMs: number;
+  /** Consecutive probe failures before a degraded server is considered down and restarted */
+  failuresBeforeDown: number;
+  /** Delay before the first restart attempt; doubled on each further attempt */
+  restartBaseDelayMs: number;
+  /** Upper bound for the restart delay */
+  restartMaxDelayMs: number;
+}
+
+export const DEFAULT_MCP_HEALTH_OPTIONS: MCPHealthOptions = {
+  probeIntervalMs: 30_000,
+  probeTimeoutMs: 10_000,
+  failuresBeforeDown: 3,
+  restartBaseDelayMs: 1_000,
+  restartMaxDelayMs: 5 * 60_000,
+};
+
+/**
+ * Health record kept for each server
+ */
+export interface MCPServerHealth {
+  state: MCPServerState;
+  startedAt?: number;
+  lastCheckedAt?: number;
+  lastError?: string;
+  lastErrorAt?: number;
+  consecutiveFailures: number;
+  restartAttempts: number;
+  restartCount: number;
+  nextRestartAt?: number;
+}
+
+/**
+ * Reject a promise that does not settle within `ms`
+ */
+export function withTimeout<T>(promise: Promise<T>, ms: number, message: string): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(message)), ms);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Tracks server health transitions. Scheduling probes and restarts is left to the caller.
+ */
+export class MCPHealthTracker {
+  private records: Map<string, MCPServerHealth> = new Map();
+  readonly options: MCPHealthOptions;
+
+  constructor(options: Partial<MCPHealthOptions> = {}) {
+    this.options = { ...DEFAULT_MCP_HEALTH_OPTIONS, ...options };
+  }
+
+  private record(serverKey: string): MCPServerHealth {
+    let record = this.records.get(serverKey);
+    if (!record) {
+      record = { state: "starting", consecutiveFailures: 0, restartAttempts: 0, restartCount: 0 };
+      this.records.set(serverKey, record);
+    }
+    return record;
+  }
+
+  /**
+   * Server is being (re)connected
+   */
+  markStarting(serverKey: string): void {
+    const record = this.record(serverKey);
+    record.state = "starting";
+    record.startedAt = undefined;
+  }
+
+  /**
+   * Connection or probe succeeded
+   */
+  markHealthy(serverKey: string): void {
+    const record = this.record(serverKey);
+    const now = Date.now();
+    if (record.state === "starting") {
+      record.startedAt = now;
+      if (record.restartAttempts > 0) {
+        record.restartCount++;
+      }
+    }
+    record.state = "healthy";
+    record.lastCheckedAt = now;
+    record.consecutiveFailures = 0;
+    record.restartAttempts = 0;
+    record.nextRestartAt = undefined;
+  }
+
+  /**
+   * Probe failed. Returns true once the server should be treated as down.
+   */
+  markProbeFailure(serverKey: string, error: unknown): boolean {
+    const record = this.record(serverKey);
+    record.consecutiveFailures++;
+    record.lastCheckedAt = Date.now();
+    this.setError(record, error);
+    if (record.consecutiveFailures >= this.options.failuresBeforeDown) {
+      record.state = "down";
+      record.startedAt = undefined;
+      return true;
+    }
+    record.state = "degraded";
+    return false;
+  }
+
+  /**
+   * Server crashed or could not be started
+   */
+  markDown(serverKey: string, error: unknown): void {
+    const record = this.record(serverKey);
+    record.state = "down";
+    record.startedAt = undefined;
+    this.setError(record, error);
+  }
+
+  /**
+   * Server is configured but disabled
+   */
+  markDisabled(serverKey: string): void {
+    const record = this.record(serverKey);
+    record.state = "disabled";
+    record.startedAt = undefined;
+    record.nextRestartAt = undefined;
+  }
+
+  /**
+   * Reserve the next restart attempt and return its delay
+   */
+  scheduleRestart(serverKey: string): number {
+    const record = this.record(serverKey);
+    const delay = Math.min(
+      this.options.restartBaseDelayMs * 2 ** record.restartAttempts,
+      this.options.restartMaxDelayMs,
+    );
+    record.restartAttempts++;
+    record.nextRestartAt = Date.now() + delay;
+    return delay;
+  }
+
+  /**
+   * Forget a server that is no longer configured
+   */
+  remove(serverKey: string): void {
+    this.records.delete(serverKey);
+  }
+
+  /**
+   * Current health of a server
+   */
+  get(serverKey: string): MCPServerHealth | undefined {
+    const record = this.records.get(serverKey);
+    return record ? { ...record } : undefined;
+  }
+
+  private setError(record: MCPServerHealth, error: unknown): void {
+    record.lastError = error instanceof Error ? error.message : String(error);
+    record.lastErrorAt = Date.now();
+  }
+}
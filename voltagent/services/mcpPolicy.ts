@@ -0,0 +1,213 @@
+/**
+ * MCP Call Policies
+ * Per-server and per-tool timeout, retry and circuit-breaker settings for MCP tool calls
+ */
+import { z } from "zod";
+import { withTimeout } from "./mcpHealth";
+
+/**
+ * Timeout and retry settings for a server or a single tool
+ */
+export const mcpCallPolicySchema = z.object({
+  /** Fail the call if the server does not answer in time */
+  timeoutMs: z.number().int().positive().optional(),
+  /** Extra attempts after a failure; only used when the tool is idempotent */
+  retries: z.number().int().min(0).optional(),
+  /** Delay before the first retry, doubled for each further retry */
+  retryDelayMs: z.number().int().min(0).optional(),
+  /** Whether calls can safely be repeated (reads, searches, ...) */
+  idempotent: z.boolean().optional(),
+  /** Cache results of an idempotent tool for this long (0 disables caching) */
+  cacheTtlMs: z.number().int().min(0).optional(),
+  /** Tools (server-local names, "*" for all) whose cached results this tool invalidates */
+  invalidates: z.array(z.string()).optional(),
+  /** "path" only invalidates cached results whose path arguments overlap with this call's */
+  invalidateScope: z.enum(["server", "path"]).optional(),
+  /** Pause the run until a user approves the call in the chat */
+  requiresApproval: z.boolean().optional(),
+});
+
+/**
+ * Circuit breaker settings for a server
+ */
+export const mcpCircuitBreakerSchema = z.object({
+  /** Consecutive failures that open the circuit */
+  failureThreshold: z.number().int().positive().optional(),
+  /** How long the circuit stays open before a trial call is allowed */
+  resetAfterMs: z.number().int().positive().optional(),
+});
+
+/**
+ * Server-level policy with per-tool overrides keyed by the server's own tool name
+ */
+export const mcpServerPolicySchema = mcpCallPolicySchema.extend({
+  circuitBreaker: mcpCircuitBreakerSchema.optional(),
+  tools: z.record(mcpCallPolicySchema).optional(),
+});
+
+export type MCPCallPolicy = z.infer<typeof mcpCallPolicySchema>;
+export type MCPServerPolicy = z.infer<typeof mcpServerPolicySchema>;
+
+/**
+ * Policy applied to one call once defaults and overrides are merged
+ */
+export type ResolvedCallPolicy = Required<MCPCallPolicy>;
+
+export const DEFAULT_CALL_POLICY: ResolvedCallPolicy = {
+  timeoutMs: 60_000,
+  retries: 2,
+  retryDelayMs: 500,
+  idempotent: false,
+  cacheTtlMs: 0,
+  invalidates: [],
+  invalidateScope: "server",
+  requiresApproval: false,
+};
+
+export const DEFAULT_CIRCUIT_BREAKER: Required<z.infer<typeof mcpCircuitBreakerSchema>> = {
+  failureThreshold: 5,
+  resetAfterMs: 30_000,
+};
+
+/**
+ * Merge defaults, the server's `timeout`, the server policy and the tool override
+ */
+export function resolveCallPolicy(
+  server: { timeout?: number; policy?: MCPServerPolicy } | undefined,
+  toolName: string,
+): ResolvedCallPolicy {
+  const serverPolicy = server?.policy;
+  const toolPolicy = serverPolicy?.tools?.[toolName];
+  const pick = <K extends keyof MCPCallPolicy>(key: K): ResolvedCallPolicy[K] =>
+    (toolPolicy?.[key] ?? serverPolicy?.[key] ?? DEFAULT_CALL_POLICY[key]) as ResolvedCallPolicy[K];
+  return {
+    timeoutMs: toolPolicy?.timeoutMs ?? serverPolicy?.timeoutMs ?? server?.timeout ?? DEFAULT_CALL_POLICY.timeoutMs,
+    retries: pick("retries"),
+    retryDelayMs: pick("retryDelayMs"),
+    idempotent: pick("idempotent"),
+    cacheTtlMs: pick("cacheTtlMs"),
+    // Invalidation describes what one tool writes, so it is never inherited from the server
+    invalidates: toolPolicy?.invalidates ?? DEFAULT_CALL_POLICY.invalidates,
+    invalidateScope: toolPolicy?.invalidateScope ?? DEFAULT_CALL_POLICY.invalidateScope,
+    requiresApproval: pick("requiresApproval"),
+  };
+}
+
+export type CircuitState = "closed" | "open" | "half_open";
+
+/**
+ * Opens after repeated failures so calls fail fast, then lets a single trial call
+ * through once `resetAfterMs` has passed
+ */
+export class CircuitBreaker {
+  private failures = 0;
+  private openedAt?: number;
+  private trialInFlight = false;
+  private readonly failureThreshold: number;
+  private readonly resetAfterMs: number;
+
+  constructor(options: z.infer<typeof mcpCircuitBreakerSchema> = {}) {
+    this.failureThreshold = options.failureThreshold ?? DEFAULT_CIRCUIT_BREAKER.failureThreshold;
+    this.resetAfterMs = options.resetAfterMs ?? DEFAULT_CIRCUIT_BREAKER.resetAfterMs;
+  }
+
+  get state(): CircuitState {
+    if (this.openedAt === undefined) {
+      return "closed";
+    }
+    return Date.now() - this.openedAt >= this.resetAfterMs ? "half_open" : "open";
+  }
+
+  /**
+   * Check if a call may proceed (reserves the trial call when half open)
+   */
+  tryAcquire(): boolean {
+    const state = this.state;
+    if (state === "closed") {
+      return true;
+    }
+    if (state === "half_open" && !this.trialInFlight) {
+      this.trialInFlight = true;
+      return true;
+    }
+    return false;
+  }
+
+  recordSuccess(): void {
+    this.failures = 0;
+    this.openedAt = undefined;
+    this.trialInFlight = false;
+  }
+
+  recordFailure(): void {
+    this.failures++;
+    if (this.trialInFlight || this.failures >= this.failureThreshold) {
+      this.openedAt = Date.now();
+    }
+    this.trialInFlight = false;
+  }
+}
+
+/**
+ * Result of a policy-controlled call, reported to hooks via onToolEnd
+ */
+export interface MCPCallOutcome {
+  toolName: string;
+  serverKey: string;
+  status: "success" | "error" | "timeout" | "circuit_open" | "denied" | "rejected";
+  attempts: number;
+  durationMs: number;
+  timeoutMs: number;
+  circuitState: CircuitState;
+  /** Result was served from the tool result cache */
+  cached?: boolean;
+  /** User who approved a call that required approval */
+  approvedBy?: string;
+  error?: string;
+}
+
+/**
+ * Run a call with the timeout, retry and circuit-breaker rules of its policy.
+ * Retries only happen for idempotent tools. A timed-out request is abandoned,
+ * not cancelled on the server.
+ */
+export async function executeWithPolicy<T>(
+  call: () => Promise<T>,
+  policy: ResolvedCallPolicy,
+  breaker: CircuitBreaker,
+  target: { toolName: string; serverKey: string },
+): Promise<{ outcome: MCPCallOutcome; result?: T; error?: Error }> {
+  const startedAt = Date.now();
+  const maxAttempts = policy.idempotent ? policy.retries + 1 : 1;
+  const finish = (status: MCPCallOutcome["status"], attempts: number, error?: Error) => ({
+    ...target,
+    status,
+    attempts,
+    durationMs: Date.now() - startedAt,
+    timeoutMs: policy.timeoutMs,
+    circuitState: breaker.state,
+    error: error?.message,
+  });
+
+  const timeoutMessage = `MCP tool "${target.toolName}" timed out after ${policy.timeoutMs}ms`;
+  let lastError: Error | undefined;
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    if (!breaker.tryAcquire()) {
+      const error = new Error(`Circuit open for MCP server "${target.serverKey}", failing fast`);
+      return { outcome: finish("circuit_open", attempt - 1, error), error };
+    }
+    try {
+      const result = await withTimeout(call(), policy.timeoutMs, timeoutMessage);
+      breaker.recordSuccess();
+      return { outcome: finish("success", attempt), result };
+    } catch (error) {
+      breaker.recordFailure();
+      lastError = error instanceof Error ? error : new Error(String(error));
+      if (attempt < maxAttempts) {
+        await new Promise((resolve) => setTimeout(resolve, policy.retryDelayMs * 2 ** (attempt - 1)));
+      }
+    }
+  }
+  const status = lastError?.message === timeoutMessage ? "timeout" : "error";
+  return { outcome: finish(status, maxAttempts, lastError), error: lastError };
+}
@@ -3,14 +3,8 @@
  * Uses LibSQL for persistent storage and conversation management
  */
 import { LibSQLStorage } from "@voltagent/core";
-
-// Helper to safely access environment variables in any environment
-function getEnvVar(name: string, fallback?: string): string | undefined {
-  if (typeof globalThis.process !== "undefined" && globalThis.process.env && globalThis.process.env[name] !== undefined) {
-    return globalThis.process.env[name];
-  }
-  return fallback;
-}
+import { databaseAuthToken, databaseUrl } from "./database";
+import { getEnvVar } from "./env";
 
 // Define a type for conversation messages (customize fields as needed)
 export type ConversationMessage = {
@@ -42,10 +36,10 @@ export type ConversationMessage = {
  */
 export const memoryStorage = new LibSQLStorage({
   // Use local SQLite file for development, Turso URL for production
-  url: getEnvVar("DATABASE_URL", "file:data/voltagent-memory.db") ?? "file:data/voltagent-memory.db",
+  url: databaseUrl,
 
   // Auth token for Turso (optional for local SQLite)
-  authToken: getEnvVar("DATABASE_AUTH_TOKEN"),
+  authToken: databaseAuthToken,
 
   // Prefix for all memory tables
   tablePrefix: "voltagent_memory",
@@ -0,0 +1,175 @@
+/**
+ * Metrics Service
+ * Counters and histograms fed by the agent hooks, rendered in the Prometheus text format
+ */
+import type { BaseRetriever } from "@voltagent/core";
+import type { UsageRecord } from "./usageLedger";
+
+type Labels = Record<string, string>;
+
+/** Latency buckets in seconds, from fast local tools to slow model runs */
+const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120];
+
+const escapeLabel = (value: string) => value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+
+const formatLabels = (labels: Labels) => {
+  const entries = Object.entries(labels);
+  return entries.length > 0 ? `{${entries.map(([key, value]) => `${key}="${escapeLabel(value)}"`).join(",")}}` : "";
+};
+
+/**
+ * Series of one metric, keyed by their label values
+ */
+abstract class Metric<T> {
+  protected series = new Map<string, { labels: Labels; value: T }>();
+
+  constructor(readonly name: string, readonly help: string, private labelNames: string[]) {}
+
+  protected entry(labels: Labels, create: () => T): T {
+    const normalized = Object.fromEntries(this.labelNames.map((label) => [label, labels[label] ?? ""]));
+    const key = JSON.stringify(normalized);
+    let series = this.series.get(key);
+    if (!series) {
+      series = { labels: normalized, value: create() };
+      this.series.set(key, series);
+    }
+    return series.value;
+  }
+
+  abstract render(): string[];
+}
+
+export class Counter extends Metric<{ count: number }> {
+  inc(labels: Labels = {}, value = 1): void {
+    this.entry(labels, () => ({ count: 0 })).count += value;
+  }
+
+  render(): string[] {
+    return [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} counter`,
+      ...Array.from(this.series.values()).map(({ labels, value }) => `${this.name}${formatLabels(labels)} ${value.count}`),
+    ];
+  }
+}
+
+export class Histogram extends Metric<{ buckets: number[]; sum: number; count: number }> {
+  constructor(name: string, help: string, labelNames: string[], private buckets: number[] = DEFAULT_BUCKETS) {
+    super(name, help, labelNames);
+  }
+
+  observe(labels: Labels, value: number): void {
+    const series = this.entry(labels, () => ({ buckets: this.buckets.map(() => 0), sum: 0, count: 0 }));
+    this.buckets.forEach((bound, index) => {
+      if (value <= bound) series.buckets[index]++;
+    });
+    series.sum += value;
+    series.count++;
+  }
+
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} histogram`];
+    for (const { labels, value } of this.series.values()) {
+      this.buckets.forEach((bound, index) => {
+        lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${value.buckets[index]}`);
+      });
+      lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: "+Inf" })} ${value.count}`);
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${value.sum}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${value.count}`);
+    }
+    return lines;
+  }
+}
+
+/**
+ * Agent, tool, retrieval and token metrics of this process
+ */
+export class MetricsService {
+  readonly agentRuns = new Counter("voltagent_agent_runs_total", "Agent runs by agent and status", ["agent", "status"]);
+  readonly agentRunDuration = new Histogram("voltagent_agent_run_duration_seconds", "Agent run duration", ["agent"]);
+  readonly delegations = new Counter("voltagent_delegations_total", "Tasks handed from one agent to another", ["from", "to"]);
+  readonly toolCalls = new Counter("voltagent_tool_calls_total", "Tool calls by tool, MCP server and status", ["tool", "server", "status"]);
+  readonly toolDuration = new Histogram("voltagent_tool_duration_seconds", "Tool call latency by tool and MCP server", ["tool", "server"]);
+  readonly retrievals = new Counter("voltagent_retrievals_total", "Retriever calls by retriever and status", ["retriever", "status"]);
+  readonly retrievalDuration = new Histogram("voltagent_retrieval_duration_seconds", "Retriever latency", ["retriever"]);
+  readonly tokens = new Counter("voltagent_tokens_total", "Model tokens by agent, model and type (prompt, completion, cached)", ["agent", "model", "type"]);
+  readonly cost = new Counter("voltagent_cost_usd_total", "Estimated model cost in USD", ["agent", "model"]);
+
+  private metrics: Array<Counter | Histogram> = [
+    this.agentRuns,
+    this.agentRunDuration,
+    this.delegations,
+    this.toolCalls,
+    this.toolDuration,
+    this.retrievals,
+    this.retrievalDuration,
+    this.tokens,
+    this.cost,
+  ];
+
+  /**
+   * Count a finished agent run with its duration and token usage
+   */
+  recordAgentRun(agent: string, status: "success" | "error", durationMs?: number, usage?: UsageRecord): void {
+    this.agentRuns.inc({ agent, status });
+    if (durationMs !== undefined) {
+      this.agentRunDuration.observe({ agent }, durationMs / 1000);
+    }
+    if (usage) {
+      this.tokens.inc({ agent, model: usage.model, type: "prompt" }, usage.promptTokens);
+      this.tokens.inc({ agent, model: usage.model, type: "completion" }, usage.completionTokens);
+      this.tokens.inc({ agent, model: usage.model, type: "cached" }, usage.cachedTokens ?? 0);
+      this.cost.inc({ agent, model: usage.model }, usage.costUsd);
+    }
+  }
+
+  recordDelegation(from: string, to: string): void {
+    this.delegations.inc({ from, to });
+  }
+
+  /**
+   * Count a finished tool call; tools that are not served by an MCP server use `local`
+   */
+  recordToolCall(tool: string, server: string | undefined, status: string, durationMs?: number): void {
+    this.toolCalls.inc({ tool, server: server ?? "local", status });
+    if (durationMs !== undefined) {
+      this.toolDuration.observe({ tool, server: server ?? "local" }, durationMs / 1000);
+    }
+  }
+
+  /**
+   * Time every `retrieve` call of a retriever, including the calls made through its tool
+   */
+  instrumentRetriever(retriever: BaseRetriever, name: string): void {
+    const target = retriever as unknown as Record<string, unknown>;
+    const retrieve = retriever.retrieve.bind(retriever);
+    target.retrieve = async (...args: Parameters<BaseRetriever["retrieve"]>) => {
+      const startTime = Date.now();
+      let status = "success";
+      try {
+        return await retrieve(...args);
+      } catch (error) {
+        status = "error";
+        throw error;
+      } finally {
+        this.retrievals.inc({ retriever: name, status });
+        this.retrievalDuration.observe({ retriever: name }, (Date.now() - startTime) / 1000);
+      }
+    };
+  }
+
+  /**
+   * All metrics in the Prometheus text exposition format
+   */
+  render(): string {
+    return `${this.metrics.flatMap((metric) => metric.render()).join("\n")}\n`;
+  }
+}
+
+// Export singleton instance
+export const metricsService = new MetricsService();
+
+/**
+ * Content type of the Prometheus text format
+ */
+export const METRICS_CONTENT_TYPE = "text/plain; version=0.0.4; charset=utf-8";
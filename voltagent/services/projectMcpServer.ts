@@ -0,0 +1,175 @@
+/* global console */
+/**
+ * Project MCP Server
+ * Publishes this project's own tools and retrievers to other MCP clients (editors, other agent runtimes)
+ */
+import { timingSafeEqual } from "node:crypto";
+import { createServer, type IncomingMessage, type ServerResponse, type Server as HttpServer } from "http";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { z } from "zod";
+import type { BaseTool } from "@voltagent/core";
+import { calculatorTool } from "../tools/calculator";
+import { semanticChunkTool } from "../tools/semanticChunkTool";
+import { chromaRetrieverTool } from "./chroma";
+import { documentRetriever, MemoryRetriever } from "./retriever";
+import { memoryStorage } from "./memory";
+import { getEnvVar } from "./env";
+
+/**
+ * Options for the HTTP transport
+ */
+export interface ProjectMCPHttpOptions {
+  port: number;
+  /** Interface to bind; loopback unless exposed on purpose */
+  host: string;
+  /** Endpoint path for streamable HTTP requests */
+  path: string;
+  /** When set, requests must send `Authorization: Bearer <token>` */
+  authToken?: string;
+  /** Start without a token anyway. Anyone who can reach the port can call every tool. */
+  allowUnauthenticated: boolean;
+}
+
+export const DEFAULT_PROJECT_MCP_HTTP_OPTIONS: ProjectMCPHttpOptions = {
+  port: Number(getEnvVar("MCP_SERVER_PORT", "3142")),
+  host: getEnvVar("MCP_SERVER_HOST") ?? "127.0.0.1",
+  path: "/mcp",
+  authToken: getEnvVar("MCP_SERVER_TOKEN"),
+  allowUnauthenticated: getEnvVar("MCP_SERVER_ALLOW_UNAUTHENTICATED") === "true",
+};
+
+const memoryRetriever = new MemoryRetriever(memoryStorage, {
+  toolName: "search_conversation_history",
+  toolDescription: "Search across conversation history and stored knowledge",
+});
+
+/**
+ * Tools and retriever tools published by the project MCP server
+ */
+export function getProjectTools(): BaseTool[] {
+  return [
+    calculatorTool,
+    semanticChunkTool,
+    chromaRetrieverTool,
+    documentRetriever.tool,
+    memoryRetriever.tool,
+  ] as BaseTool[];
+}
+
+/**
+ * Format a tool result as MCP text content
+ */
+function toTextContent(result: unknown): { type: "text"; text: string } {
+  return { type: "text", text: typeof result === "string" ? result : JSON.stringify(result, null, 2) };
+}
+
+/**
+ * Create an MCP server with every project tool registered
+ */
+export function createProjectMCPServer(tools: BaseTool[] = getProjectTools()): McpServer {
+  const server = new McpServer({ name: "deanmachines-volt", version: "0.1.0" });
+  for (const tool of tools) {
+    if (!(tool.parameters instanceof z.ZodObject)) {
+      console.warn(`⚠️  Skipping ${tool.name}: MCP tools need an object parameter schema`);
+      continue;
+    }
+    server.registerTool(
+      tool.name,
+      { description: tool.description, inputSchema: tool.parameters.shape },
+      async (args: Record<string, unknown>) => {
+        try {
+          return { content: [toTextContent(await tool.execute(args))] };
+        } catch (error) {
+          return {
+            isError: true,
+            content: [toTextContent(error instanceof Error ? error.message : String(error))],
+          };
+        }
+      },
+    );
+  }
+  return server;
+}
+
+/**
+ * Serve the project tools over stdio. stdout carries the protocol, so log to stderr.
+ */
+export async function startProjectMCPServerStdio(): Promise<McpServer> {
+  const server = createProjectMCPServer();
+  await server.connect(new StdioServerTransport());
+  console.error(`🔌 Project MCP server ready on stdio (${getProjectTools().length} tools)`);
+  return server;
+}
+
+/**
+ * Check the bearer token of an HTTP request
+ */
+function isAuthorized(request: IncomingMessage, authToken?: string): boolean {
+  if (!authToken) {
+    return true;
+  }
+  const expected = Buffer.from(`Bearer ${authToken}`);
+  const actual = Buffer.from(request.headers.authorization ?? "");
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+/**
+ * Serve the project tools over streamable HTTP. Each request gets its own
+ * stateless server, so clients need no session handling.
+ * Refuses to start without a token unless unauthenticated access is allowed explicitly.
+ */
+export function startProjectMCPServerHttp(options: Partial<ProjectMCPHttpOptions> = {}): Promise<HttpServer> {
+  const { port, host, path, authToken, allowUnauthenticated } = { ...DEFAULT_PROJECT_MCP_HTTP_OPTIONS, ...options };
+  if (!authToken && !allowUnauthenticated) {
+    return Promise.reject(new Error(
+      "MCP_SERVER_TOKEN is not set. Set a token, or MCP_SERVER_ALLOW_UNAUTHENTICATED=true to serve without one.",
+    ));
+  }
+  const sendError = (response: ServerResponse, status: number, message: string) => {
+    response.writeHead(status, { "Content-Type": "application/json" }).end(
+      JSON.stringify({ jsonrpc: "2.0", error: { code: -32000, message }, id: null }),
+    );
+  };
+
+  const httpServer = createServer(async (request, response) => {
+    const url = new URL(request.url ?? "/", "http://localhost");
+    if (url.pathname !== path) {
+      sendError(response, 404, "Not found");
+      return;
+    }
+    if (!isAuthorized(request, authToken)) {
+      sendError(response, 401, "Unauthorized");
+      return;
+    }
+    if (request.method !== "POST") {
+      sendError(response, 405, "Method not allowed");
+      return;
+    }
+
+    const server = createProjectMCPServer();
+    const transport = new StreamableHTTPServerTransport({ sessionIdGenerator: undefined });
+    response.on("close", () => {
+      transport.close();
+      server.close();
+    });
+    try {
+      await server.connect(transport);
+      await transport.handleRequest(request, response);
+    } catch (error) {
+      console.error("❌ Project MCP server request failed:", error);
+      if (!response.headersSent) {
+        sendError(response, 500, "Internal server error");
+      }
+    }
+  });
+
+  return new Promise((resolve, reject) => {
+    httpServer.once("error", reject);
+    httpServer.listen(port, host, () => {
+      console.log(`🔌 Project MCP server listening on http://${host}:${port}${path}${authToken ? " (token required)" : " (no token)"}`);
+      resolve(httpServer);
+    });
+  });
+}
@@ -0,0 +1,225 @@
+/* global console */
+/**
+ * Redaction Service
+ * Masks secrets and PII in hook payloads, console output and telemetry before they leave the process
+ */
+import type { VoltAgentExporter } from "@voltagent/core";
+import type { ReadableSpan, SpanExporter } from "@opentelemetry/sdk-trace-base";
+import { getEnvVar } from "./env";
+
+/**
+ * A named pattern and what its matches are replaced with
+ */
+export interface RedactionPattern {
+  name: string;
+  /** Must be global (`g` flag) */
+  pattern: RegExp;
+  replacement?: string;
+}
+
+/**
+ * Built-in patterns for API keys, tokens, emails and connection strings
+ */
+export const DEFAULT_REDACTION_PATTERNS: RedactionPattern[] = [
+  { name: "connection_string", pattern: /\b(?:postgres(?:ql)?|mysql|mongodb(?:\+srv)?|redis|rediss|amqp|libsql):\/\/[^\s"'`]+/gi },
+  { name: "bearer_token", pattern: /\bBearer\s+[A-Za-z0-9._~+/-]+=*/g, replacement: "Bearer [REDACTED]" },
+  { name: "jwt", pattern: /\beyJ[A-Za-z0-9_-]{10,}\.eyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}/g },
+  { name: "google_api_key", pattern: /\bAIza[0-9A-Za-z_-]{35}\b/g },
+  { name: "openai_api_key", pattern: /\bsk-(?:proj-|ant-)?[A-Za-z0-9_-]{20,}/g },
+  { name: "github_token", pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})\b/g },
+  { name: "aws_access_key", pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g },
+  { name: "slack_token", pattern: /\bxox[abposr]-[A-Za-z0-9-]{10,}/g },
+  { name: "email", pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g, replacement: "[REDACTED_EMAIL]" },
+];
+
+/**
+ * Object keys whose values are always masked
+ */
+export const SECRET_KEY_PATTERN = /token|secret|password|passwd|api[_-]?key|authorization|cookie|credential/i;
+
+/**
+ * Whether redaction is on (REDACTION_ENABLED, default true)
+ */
+export const redactionEnabled = getEnvVar("REDACTION_ENABLED", "true")?.toLowerCase() !== "false";
+
+/**
+ * Extra patterns from REDACTION_PATTERNS, a JSON array of regular expression sources
+ */
+function loadCustomPatterns(): RedactionPattern[] {
+  const raw = getEnvVar("REDACTION_PATTERNS");
+  if (!raw) {
+    return [];
+  }
+  try {
+    const sources = JSON.parse(raw);
+    if (!Array.isArray(sources)) {
+      throw new Error("expected a JSON array of strings");
+    }
+    return sources.map((source, index) => ({ name: `custom_${index + 1}`, pattern: new RegExp(String(source), "g") }));
+  } catch (error) {
+    console.error("❌ Ignoring invalid REDACTION_PATTERNS:", error instanceof Error ? error.message : error);
+    return [];
+  }
+}
+
+const CONSOLE_METHODS = ["log", "info", "warn", "error", "debug"] as const;
+
+/**
+ * Applies the redaction patterns to text and structured values
+ */
+export class RedactionService {
+  private patterns: RedactionPattern[];
+  private consoleInstalled = false;
+
+  constructor(patterns: RedactionPattern[] = [...DEFAULT_REDACTION_PATTERNS, ...loadCustomPatterns()], private enabled = redactionEnabled) {
+    this.patterns = patterns;
+  }
+
+  /**
+   * Add a pattern, e.g. for an internal token format. Non-global patterns are made global.
+   */
+  addPattern(pattern: RedactionPattern): void {
+    const flags = pattern.pattern.flags.includes("g") ? pattern.pattern.flags : `${pattern.pattern.flags}g`;
+    this.patterns.push({ ...pattern, pattern: new RegExp(pattern.pattern.source, flags) });
+  }
+
+  getPatterns(): RedactionPattern[] {
+    return [...this.patterns];
+  }
+
+  /**
+   * Replace every match of every pattern
+   */
+  redactText(text: string): string {
+    if (!this.enabled) {
+      return text;
+    }
+    return this.patterns.reduce(
+      (result, { name, pattern, replacement }) => result.replace(pattern, replacement ?? `[REDACTED_${name.toUpperCase()}]`),
+      text,
+    );
+  }
+
+  /**
+   * Deep copy of a value with matches redacted and string values of secret-looking keys masked
+   * (so counters such as `totalTokens` survive).
+   * Errors become `{ name, message }`, cycles become "[Circular]"; other class instances are left as they are.
+   */
+  redact<T>(value: T): T {
+    if (!this.enabled) {
+      return value;
+    }
+    // Only the objects on the current path count as cycles; shared references are redacted at every use
+    const ancestors = new WeakSet<object>();
+    const visit = (item: unknown): unknown => {
+      if (typeof item === "string") {
+        return this.redactText(item);
+      }
+      if (item instanceof Error) {
+        return { name: item.name, message: this.redactText(item.message) };
+      }
+      if (!item || typeof item !== "object") {
+        return item;
+      }
+      if (ancestors.has(item)) {
+        return "[Circular]";
+      }
+      const prototype = Object.getPrototypeOf(item);
+      if (!Array.isArray(item) && prototype !== Object.prototype && prototype !== null) {
+        return item;
+      }
+      ancestors.add(item);
+      try {
+        if (Array.isArray(item)) {
+          return item.map(visit);
+        }
+        return Object.fromEntries(
+          Object.entries(item).map(([key, entry]) => [key, SECRET_KEY_PATTERN.test(key) && typeof entry === "string" ? "[REDACTED]" : visit(entry)]),
+        );
+      } finally {
+        ancestors.delete(item);
+      }
+    };
+    return visit(value) as T;
+  }
+
+  /**
+   * `JSON.stringify` with redaction, for logging and storing payloads
+   */
+  stringify(value: unknown): string {
+    return this.redactText(JSON.stringify(this.redact(value)) ?? String(value));
+  }
+
+  /**
+   * Redact the arguments of console.log/info/warn/error/debug for the whole process
+   */
+  installConsole(): void {
+    if (!this.enabled || this.consoleInstalled || typeof globalThis.console === "undefined") {
+      return;
+    }
+    this.consoleInstalled = true;
+    const target = globalThis.console as unknown as Record<string, unknown>;
+    for (const method of CONSOLE_METHODS) {
+      const original = target[method];
+      if (typeof original !== "function") continue;
+      target[method] = (...args: unknown[]) =>
+        (original as (...params: unknown[]) => void).apply(
+          globalThis.console,
+          // Errors are printed with their stack, which redact() would drop
+          args.map((arg) => (arg instanceof Error ? this.redactText(arg.stack ?? `${arg.name}: ${arg.message}`) : this.redact(arg))),
+        );
+    }
+  }
+
+  /**
+   * Span exporter that redacts span attributes and event attributes before passing spans on
+   */
+  wrapSpanExporter<T extends SpanExporter>(exporter: T): T {
+    if (!this.enabled) {
+      return exporter;
+    }
+    const redactSpan = (span: ReadableSpan): ReadableSpan => {
+      const copy = Object.create(span) as ReadableSpan;
+      Object.defineProperties(copy, {
+        attributes: { value: this.redact({ ...span.attributes }) },
+        events: { value: span.events.map((event) => ({ ...event, attributes: event.attributes && this.redact({ ...event.attributes }) })) },
+      });
+      return copy;
+    };
+    const target = exporter as unknown as Record<string, unknown>;
+    const exportSpans = target.export as SpanExporter["export"];
+    target.export = (spans: ReadableSpan[], resultCallback: Parameters<SpanExporter["export"]>[1]) =>
+      exportSpans.call(exporter, spans.map(redactSpan), resultCallback);
+    return exporter;
+  }
+
+  /**
+   * VoltAgent exporter that redacts history entries, steps and timeline events before sending them
+   */
+  wrapVoltAgentExporter(exporter: VoltAgentExporter): VoltAgentExporter {
+    if (!this.enabled) {
+      return exporter;
+    }
+    const target = exporter as unknown as Record<string, unknown>;
+    const methods = [
+      "exportHistoryEntry",
+      "exportHistoryEntryAsync",
+      "exportTimelineEvent",
+      "exportTimelineEventAsync",
+      "exportHistorySteps",
+      "exportHistoryStepsAsync",
+      "updateHistoryEntry",
+      "updateHistoryEntryAsync",
+    ];
+    for (const method of methods) {
+      const original = target[method];
+      if (typeof original !== "function") continue;
+      target[method] = (...args: unknown[]) =>
+        (original as (...params: unknown[]) => unknown).apply(exporter, args.map((arg) => this.redact(arg)));
+    }
+    return exporter;
+  }
+}
+
+// Export singleton instance
+export const redactionService = new RedactionService();
@@ -0,0 +1,407 @@
+/* global console, TransformStream */
+/**
+ * Record & Replay
+ * Records the model calls and MCP tool calls of agent runs into a fixture file, and serves
+ * them back from that file so agent flows can be tested without Gemini or MCP servers
+ */
+import { createHash } from "node:crypto";
+import { readFileSync } from "node:fs";
+import { mkdir, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import { simulateReadableStream, wrapLanguageModel, type EmbeddingModel, type LanguageModel } from "ai";
+import { getEnvVar } from "./env";
+import { normalizeArgs } from "./mcpCache";
+import { redactionService } from "./redaction";
+
+export type ReplayMode = "off" | "record" | "replay";
+
+type GenerateResult = Awaited<ReturnType<LanguageModel["doGenerate"]>>;
+type StreamResult = Awaited<ReturnType<LanguageModel["doStream"]>>;
+type StreamPart = StreamResult["stream"] extends ReadableStream<infer T> ? T : never;
+type CallOptions = Parameters<LanguageModel["doGenerate"]>[0];
+type EmbedOptions = Parameters<EmbeddingModel<string>["doEmbed"]>[0];
+type EmbedResult = Awaited<ReturnType<EmbeddingModel<string>["doEmbed"]>>;
+
+/**
+ * One recorded model call
+ */
+export interface RecordedModelCall {
+  /** Hash of the model id and the normalized prompt (or embedded values) */
+  key: string;
+  /** First line of the system prompt, used to match calls of the same agent when the prompt changed */
+  caller?: string;
+  modelId: string;
+  type: "generate" | "stream" | "embed";
+  /** Redacted prompt or embedded values, for reading fixture diffs */
+  request: unknown;
+  /** doGenerate result without raw request and response bodies */
+  result?: Omit<GenerateResult, "rawCall" | "rawResponse" | "request">;
+  /** Stream parts in order; errors are stored as their message */
+  chunks?: unknown[];
+  embeddings?: number[][];
+}
+
+/**
+ * One recorded MCP tool call
+ */
+export interface RecordedToolCall {
+  /** Hash of the tool name and normalized arguments */
+  key: string;
+  toolName: string;
+  args: unknown;
+  result?: unknown;
+  error?: string;
+}
+
+/**
+ * Tool definitions of an MCP server as the agents saw them
+ */
+export interface RecordedTool {
+  name: string;
+  description?: string;
+}
+
+/**
+ * Contents of a fixture file
+ */
+export interface ReplayFixture {
+  version: 1;
+  recordedAt: string;
+  servers: Record<string, RecordedTool[]>;
+  modelCalls: RecordedModelCall[];
+  toolCalls: RecordedToolCall[];
+}
+
+/**
+ * Mode from REPLAY_MODE (off, record or replay; default off)
+ */
+export const replayMode: ReplayMode = (["record", "replay"] as const).find((mode) => mode === getEnvVar("REPLAY_MODE")?.toLowerCase()) ?? "off";
+
+/**
+ * Fixture file from REPLAY_FIXTURE
+ */
+export const replayFixturePath = getEnvVar("REPLAY_FIXTURE", "fixtures/agent-run.json") ?? "fixtures/agent-run.json";
+
+const hash = (value: string) => createHash("sha256").update(value).digest("hex").slice(0, 16);
+
+/**
+ * Prompt text with ids and timestamps replaced, so reruns of the same flow hash the same
+ */
+const normalizePrompt = (prompt: unknown) =>
+  JSON.stringify(prompt)
+    .replace(/[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/gi, "<id>")
+    .replace(/\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(?:\.\d+)?(?:Z|[+-]\d{2}:\d{2})?/g, "<time>");
+
+/**
+ * First line of the system prompt; VoltAgent starts it with the agent's name
+ */
+const getCaller = (prompt: CallOptions["prompt"]) => {
+  const system = prompt.find((message) => message.role === "system");
+  return system && typeof system.content === "string" ? system.content.split("\n")[0].slice(0, 200) : undefined;
+};
+
+/**
+ * JSON turns dates into strings; the AI SDK expects response timestamps as dates
+ */
+const reviveTimestamp = <T>(value: T): T => {
+  const item = value as { timestamp?: unknown; response?: { timestamp?: unknown } };
+  if (typeof item?.timestamp === "string") {
+    return { ...value, timestamp: new Date(item.timestamp) };
+  }
+  if (typeof item?.response?.timestamp === "string") {
+    return { ...value, response: { ...item.response, timestamp: new Date(item.response.timestamp) } };
+  }
+  return value;
+};
+
+/**
+ * Generate result without the raw HTTP request and response, which can be large
+ */
+const withoutRawBodies = (result: GenerateResult): RecordedModelCall["result"] => {
+  const recorded: Partial<GenerateResult> = { ...result };
+  delete recorded.rawCall;
+  delete recorded.rawResponse;
+  delete recorded.request;
+  return recorded as RecordedModelCall["result"];
+};
+
+const emptyFixture = (): ReplayFixture => ({
+  version: 1,
+  recordedAt: new Date().toISOString(),
+  servers: {},
+  modelCalls: [],
+  toolCalls: [],
+});
+
+/**
+ * Records to or replays from one fixture file. Models and the MCP tools service consult it
+ * on every call, so the mode can also be switched from test code.
+ */
+export class ReplayService {
+  private fixture: ReplayFixture = emptyFixture();
+  private usedModelCalls = new Set<RecordedModelCall>();
+  private usedToolCalls = new Set<RecordedToolCall>();
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(private mode: ReplayMode = replayMode, private fixturePath = replayFixturePath, private strict = getEnvVar("REPLAY_STRICT") === "true") {
+    if (mode === "replay") {
+      this.fixture = this.load(fixturePath);
+    }
+    if (mode !== "off") {
+      console.log(`🎞️  ${mode === "record" ? "Recording agent runs to" : "Replaying agent runs from"} ${fixturePath}`);
+    }
+  }
+
+  private load(fixturePath: string): ReplayFixture {
+    try {
+      const fixture = JSON.parse(readFileSync(fixturePath, "utf8")) as ReplayFixture;
+      if (fixture.version !== 1) {
+        throw new Error(`unsupported fixture version ${fixture.version}`);
+      }
+      return fixture;
+    } catch (error) {
+      throw new Error(`Cannot replay from ${fixturePath}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  getMode(): ReplayMode {
+    return this.mode;
+  }
+
+  isRecording(): boolean {
+    return this.mode === "record";
+  }
+
+  isReplaying(): boolean {
+    return this.mode === "replay";
+  }
+
+  /**
+   * Start recording into a fresh fixture (written after every call)
+   */
+  record(fixturePath = this.fixturePath): void {
+    this.mode = "record";
+    this.fixturePath = fixturePath;
+    this.fixture = emptyFixture();
+  }
+
+  /**
+   * Serve model and tool calls from a fixture. With `strict` a call whose request differs
+   * from the recording fails instead of falling back to the next recorded call.
+   * MCP servers that are already connected keep running until `mcpToolsService.reinitialize()`.
+   */
+  replay(fixturePath = this.fixturePath, options: { strict?: boolean } = {}): void {
+    this.fixture = this.load(fixturePath);
+    this.mode = "replay";
+    this.fixturePath = fixturePath;
+    this.strict = options.strict ?? this.strict;
+    this.usedModelCalls.clear();
+    this.usedToolCalls.clear();
+  }
+
+  /**
+   * Go back to live calls; a recording is flushed first
+   */
+  async stop(): Promise<void> {
+    this.mode = "off";
+    await this.flush();
+  }
+
+  getFixture(): ReplayFixture {
+    return this.fixture;
+  }
+
+  /**
+   * Recorded calls that a replay has not used yet, e.g. to assert a flow made every call
+   */
+  getUnusedCalls(): { modelCalls: RecordedModelCall[]; toolCalls: RecordedToolCall[] } {
+    return {
+      modelCalls: this.fixture.modelCalls.filter((call) => !this.usedModelCalls.has(call)),
+      toolCalls: this.fixture.toolCalls.filter((call) => !this.usedToolCalls.has(call)),
+    };
+  }
+
+  /**
+   * Wait until the recording is on disk
+   */
+  flush(): Promise<void> {
+    return this.writes;
+  }
+
+  private save(): void {
+    const fixturePath = this.fixturePath;
+    const contents = `${JSON.stringify(this.fixture, null, 2)}\n`;
+    this.writes = this.writes
+      .then(async () => {
+        await mkdir(dirname(fixturePath), { recursive: true });
+        await writeFile(fixturePath, contents);
+      })
+      .catch((error) => console.error(`❌ Failed to write fixture ${fixturePath}:`, error));
+  }
+
+  /**
+   * Next unused recording with the same key, else (unless strict) the next one from the same caller
+   */
+  private takeModelCall(key: string, caller: string | undefined, type: RecordedModelCall["type"], modelId: string): RecordedModelCall {
+    const unused = this.fixture.modelCalls.filter((call) => !this.usedModelCalls.has(call) && call.type === type);
+    let call = unused.find((candidate) => candidate.key === key);
+    if (!call && !this.strict) {
+      call = unused.find((candidate) => candidate.modelId === modelId && candidate.caller === caller);
+      if (call) {
+        console.warn(`⚠️  Replaying ${type} call of ${modelId} for a changed prompt (${caller ?? "no system prompt"})`);
+      }
+    }
+    if (!call) {
+      throw new Error(`No recorded ${type} call of ${modelId} matches this request in ${this.fixturePath}`);
+    }
+    this.usedModelCalls.add(call);
+    return call;
+  }
+
+  private addModelCall(call: RecordedModelCall): void {
+    this.fixture.modelCalls.push({ ...call, request: redactionService.redact(call.request) });
+    this.save();
+  }
+
+  /**
+   * Language model that records or replays its calls. Outside record and replay mode calls pass through.
+   */
+  wrapLanguageModel(model: LanguageModel): LanguageModel {
+    return wrapLanguageModel({
+      model,
+      middleware: {
+        wrapGenerate: async ({ doGenerate, params }) => {
+          if (this.mode === "off") {
+            return doGenerate();
+          }
+          const key = hash(`${model.modelId}:${params.mode.type}:${normalizePrompt(params.prompt)}`);
+          const caller = getCaller(params.prompt);
+          if (this.mode === "replay") {
+            const call = this.takeModelCall(key, caller, "generate", model.modelId);
+            return { ...reviveTimestamp(call.result as GenerateResult), rawCall: { rawPrompt: params.prompt, rawSettings: {} } };
+          }
+          const result = await doGenerate();
+          this.addModelCall({ key, caller, modelId: model.modelId, type: "generate", request: params.prompt, result: withoutRawBodies(result) });
+          return result;
+        },
+        wrapStream: async ({ doStream, params }) => {
+          if (this.mode === "off") {
+            return doStream();
+          }
+          const key = hash(`${model.modelId}:${params.mode.type}:${normalizePrompt(params.prompt)}`);
+          const caller = getCaller(params.prompt);
+          if (this.mode === "replay") {
+            const call = this.takeModelCall(key, caller, "stream", model.modelId);
+            const chunks = (call.chunks ?? []).map((chunk) => {
+              const part = chunk as { type: string; error?: unknown };
+              return (part.type === "error" ? { ...part, error: new Error(String(part.error)) } : reviveTimestamp(part)) as StreamPart;
+            });
+            return {
+              stream: simulateReadableStream({ chunks, initialDelayInMs: null, chunkDelayInMs: null }),
+              rawCall: { rawPrompt: params.prompt, rawSettings: {} },
+            };
+          }
+          const result = await doStream();
+          const chunks: unknown[] = [];
+          const stream = result.stream.pipeThrough(new TransformStream<StreamPart, StreamPart>({
+            transform: (part, controller) => {
+              chunks.push(part.type === "error" ? { ...part, error: part.error instanceof Error ? part.error.message : String(part.error) } : part);
+              controller.enqueue(part);
+            },
+            flush: () => this.addModelCall({ key, caller, modelId: model.modelId, type: "stream", request: params.prompt, chunks }),
+          }));
+          return { ...result, stream };
+        },
+      },
+    });
+  }
+
+  /**
+   * Embedding model that records or replays its calls
+   */
+  wrapEmbeddingModel<T extends EmbeddingModel<string>>(model: T): T {
+    const wrapped = Object.create(model) as T;
+    (wrapped as unknown as Record<string, unknown>).doEmbed = async (options: EmbedOptions): Promise<EmbedResult> => {
+      if (this.mode === "off") {
+        return model.doEmbed(options);
+      }
+      const key = hash(`${model.modelId}:${normalizeArgs(options.values)}`);
+      if (this.mode === "replay") {
+        return { embeddings: this.takeModelCall(key, undefined, "embed", model.modelId).embeddings ?? [] };
+      }
+      const result = await model.doEmbed(options);
+      this.addModelCall({ key, modelId: model.modelId, type: "embed", request: options.values, embeddings: result.embeddings });
+      return result;
+    };
+    return wrapped;
+  }
+
+  /**
+   * Remember the tools a server offered, so a replay can offer the same tools without the server
+   */
+  recordServerTools(serverKey: string, tools: RecordedTool[]): void {
+    if (this.mode !== "record") {
+      return;
+    }
+    this.fixture.servers[serverKey] = tools.map(({ name, description }) => ({ name, description }));
+    this.save();
+  }
+
+  /**
+   * Tools recorded for a server, or undefined when the fixture has none for it
+   */
+  getServerTools(serverKey: string): RecordedTool[] | undefined {
+    return this.fixture.servers[serverKey];
+  }
+
+  /**
+   * Run a tool call and, in record mode, store its arguments and result or error
+   */
+  async recordToolCall<T>(toolName: string, args: unknown, execute: () => Promise<T>): Promise<T> {
+    if (this.mode !== "record") {
+      return execute();
+    }
+    const record: RecordedToolCall = {
+      key: hash(`${toolName}:${normalizeArgs(args)}`),
+      toolName,
+      args: redactionService.redact(args),
+    };
+    try {
+      const result = await execute();
+      record.result = redactionService.redact(result);
+      return result;
+    } catch (error) {
+      record.error = redactionService.redactText(error instanceof Error ? error.message : String(error));
+      throw error;
+    } finally {
+      this.fixture.toolCalls.push(record);
+      this.save();
+    }
+  }
+
+  /**
+   * Recorded result of a tool call; a recorded error is thrown again
+   */
+  async replayToolCall(toolName: string, args: unknown): Promise<unknown> {
+    const key = hash(`${toolName}:${normalizeArgs(args)}`);
+    const unused = this.fixture.toolCalls.filter((call) => !this.usedToolCalls.has(call) && call.toolName === toolName);
+    let call = unused.find((candidate) => candidate.key === key);
+    if (!call && !this.strict) {
+      call = unused[0];
+      if (call) {
+        console.warn(`⚠️  Replaying ${toolName} for changed arguments`);
+      }
+    }
+    if (!call) {
+      throw new Error(`No recorded call of ${toolName} matches these arguments in ${this.fixturePath}`);
+    }
+    this.usedToolCalls.add(call);
+    if (call.error !== undefined) {
+      throw new Error(call.error);
+    }
+    return call.result;
+  }
+}
+
+// Export singleton instance
+export const replayService = new ReplayService();
@@ -5,6 +5,8 @@
 import { BaseRetriever, type BaseMessage, type RetrieveOptions } from "@voltagent/core";
 import { LibSQLStorage } from "@voltagent/core";
 import { mcpToolsService } from "./mcp";
+import { appendReference } from "./contextKeys";
+import { metricsService } from "./metrics";
 
 /**
  * Real Document Retriever - connects to actual document sources
@@ -12,11 +14,12 @@ import { mcpToolsService } from "./mcp";
  */
 export class DocumentRetriever extends BaseRetriever {
   constructor(
-    private documentSource: 'filesystem' | 'database' | 'api' = 'filesystem',
+    private documentSource: 'filesystem' | 'database' | 'api' | 'mcp_resources' = 'filesystem',
     private basePath?: string,
     options?: { toolName?: string; toolDescription?: string }
   ) {
     super(options);
+    metricsService.instrumentRetriever(this, `document_${documentSource}`);
   }
 
   async retrieve(input: string | BaseMessage[], options: RetrieveOptions): Promise<string> {
@@ -41,6 +44,8 @@ export class DocumentRetriever extends BaseRetriever {
           return await this.searchDatabase(query, options);
         case 'api':
           return await this.searchAPI(query, options);
+        case 'mcp_resources':
+          return await this.searchMCPResources(query, options);
         default:
           return "No document source configured.";
       }
@@ -68,14 +73,12 @@ export class DocumentRetriever extends BaseRetriever {
       if (filesystemTools.length === 0) {
         // Store fallback info in userContext
         if (options.userContext) {
-          const references = options.userContext.get("references") as any[] || [];
-          references.push({
+          appendReference(options.userContext, 'filesystem', {
             source: 'filesystem',
             query,
             status: 'no_tools',
             note: 'MCP filesystem tools not available'
           });
-          options.userContext.set("references", references);
         }
         return "Filesystem tools not available. Please ensure MCP filesystem server is configured.";
       }
@@ -142,8 +145,7 @@ export class DocumentRetriever extends BaseRetriever {
 
       // Store search results in userContext
       if (options.userContext) {
-        const references = options.userContext.get("references") as any[] || [];
-        references.push({
+        appendReference(options.userContext, 'filesystem', {
           source: 'filesystem',
           query,
           searchPath,
@@ -151,7 +153,6 @@ export class DocumentRetriever extends BaseRetriever {
           toolsUsed: filesystemTools.map(t => t.name),
           resultsCount: searchResults.length
         });
-        options.userContext.set("references", references);
       }
 
       if (searchResults.length > 0) {
@@ -165,33 +166,73 @@ export class DocumentRetriever extends BaseRetriever {
       
       // Store error in userContext
       if (options.userContext) {
-        const references = options.userContext.get("references") as any[] || [];
-        references.push({
+        appendReference(options.userContext, 'filesystem', {
           source: 'filesystem',
           query,
           status: 'error',
           error: error instanceof Error ? error.message : 'Unknown error'
         });
-        options.userContext.set("references", references);
       }
       
       return `Error searching filesystem: ${error instanceof Error ? error.message : 'Unknown error'}`;
     }
   }
 
+  private async searchMCPResources(query: string, options: RetrieveOptions): Promise<string> {
+    const matches = mcpToolsService.searchResources(query, 3);
+    if (matches.length === 0) {
+      if (options.userContext) {
+        appendReference(options.userContext, 'mcp_resources', {
+          source: 'mcp_resources',
+          query,
+          status: 'no_matches',
+          resourcesAvailable: mcpToolsService.getResources().length
+        });
+      }
+      return `No MCP resources found matching "${query}"`;
+    }
+
+    const searchResults: string[] = [];
+    for (const resource of matches) {
+      try {
+        const contents = await mcpToolsService.readResource(resource.serverKey, resource.uri);
+        const text = contents
+          .map(content => content.text)
+          .filter((value): value is string => typeof value === 'string')
+          .join('\n')
+          .slice(0, 4000);
+        searchResults.push(`\n**${resource.name}** (${resource.uri}, ${resource.serverKey}):`);
+        searchResults.push(text || '(binary content)');
+      } catch (error) {
+        console.warn(`Failed to read MCP resource ${resource.uri}:`, error);
+      }
+    }
+
+    if (options.userContext) {
+      appendReference(options.userContext, 'mcp_resources', {
+        source: 'mcp_resources',
+        query,
+        status: 'completed',
+        resources: matches.map(resource => ({ serverKey: resource.serverKey, uri: resource.uri }))
+      });
+    }
+
+    return searchResults.length > 0
+      ? `## MCP Resource Results\n${searchResults.join('\n')}`
+      : `Found MCP resources matching "${query}" but none could be read.`;
+  }
+
   private async searchDatabase(query: string, options: RetrieveOptions): Promise<string> {
     // TODO: Implement real database search using vector embeddings
     // This would use a vector database like Qdrant, Pinecone, or Supabase Vector
       // Store references in userContext if available
     if (options.userContext) {
-      const references = options.userContext.get("references") as any[] || [];
-      references.push({
+      appendReference(options.userContext, 'database', {
         source: 'database',
         query,
         status: 'not_implemented',
         note: 'Requires vector database setup'
       });
-      options.userContext.set("references", references);
     }
     
     return "Database search not yet implemented - requires vector database setup.";
@@ -204,14 +245,12 @@ export class DocumentRetriever extends BaseRetriever {
       if (webTools.length === 0) {
         // Store fallback info in userContext
         if (options.userContext) {
-          const references = options.userContext.get("references") as any[] || [];
-          references.push({
+          appendReference(options.userContext, 'api', {
             source: 'api',
             query,
             status: 'no_tools',
             note: 'MCP web search tools not available'
           });
-          options.userContext.set("references", references);
         }
         return "Web search tools not available. Please ensure MCP web search server is configured.";
       }
@@ -225,14 +264,12 @@ export class DocumentRetriever extends BaseRetriever {
 
       if (!searchTool) {
         if (options.userContext) {
-          const references = options.userContext.get("references") as any[] || [];
-          references.push({
+          appendReference(options.userContext, 'api', {
             source: 'api',
             query,
             status: 'no_search_tool',
             note: 'No web search tool found in MCP tools'
           });
-          options.userContext.set("references", references);
         }
         return "No web search tool found in available MCP tools.";
       }
@@ -247,15 +284,13 @@ export class DocumentRetriever extends BaseRetriever {
 
       // Store search results in userContext
       if (options.userContext) {
-        const references = options.userContext.get("references") as any[] || [];
-        references.push({
+        appendReference(options.userContext, 'api', {
           source: 'api',
           query,
           status: 'completed',
           toolUsed: searchTool.name,
           timestamp: new Date().toISOString()
         });
-        options.userContext.set("references", references);
       }
 
       if (searchResults && typeof searchResults === 'string' && searchResults.length > 0) {
@@ -273,14 +308,12 @@ export class DocumentRetriever extends BaseRetriever {
       
       // Store error in userContext
       if (options.userContext) {
-        const references = options.userContext.get("references") as any[] || [];
-        references.push({
+        appendReference(options.userContext, 'api', {
           source: 'api',
           query,
           status: 'error',
           error: error instanceof Error ? error.message : 'Unknown error'
         });
-        options.userContext.set("references", references);
       }
       
       return `Error searching web: ${error instanceof Error ? error.message : 'Unknown error'}`;
@@ -298,6 +331,7 @@ export class MemoryRetriever extends BaseRetriever {
     options?: { toolName?: string; toolDescription?: string }
   ) {
     super(options);
+    metricsService.instrumentRetriever(this, "memory");
   }
 
   async retrieve(input: string | BaseMessage[], options: RetrieveOptions): Promise<string> {
@@ -350,14 +384,14 @@ export class MemoryRetriever extends BaseRetriever {
           .map((memory) => `**${memory.title}** (${memory.date})\nSummary: ${memory.summary}\nMessages: ${memory.messageCount}`)
           .join("\n\n");        // Store successful retrieval results in userContext
         if (options.userContext) {
-          const references = options.userContext.get("references") as any[] || [];
-          references.push(...memoryDetails.map(memory => ({
-            title: memory.title,
-            date: memory.date,
-            type: 'conversation_memory',
-            messageCount: memory.messageCount
-          })));
-          options.userContext.set("references", references);
+          for (const memory of memoryDetails) {
+            appendReference(options.userContext, 'conversation_memory', {
+              title: memory.title,
+              date: memory.date,
+              type: 'conversation_memory',
+              messageCount: memory.messageCount
+            });
+          }
           
           // Store retrieval metadata
           options.userContext.set("lastMemoryRetrieval", {
@@ -446,7 +480,17 @@ export const documentRetriever = new DocumentRetriever(
   }
 );
 
+export const mcpResourceRetriever = new DocumentRetriever(
+  'mcp_resources',
+  undefined,
+  {
+    toolName: "search_mcp_resources",
+    toolDescription: "Searches documents and data published as resources by connected MCP servers.",
+  }
+);
+
 export const retrieverService = new RetrieverService();
 
 // Register default retrievers
 retrieverService.registerRetriever("documents", documentRetriever);
+retrieverService.registerRetriever("mcp_resources", mcpResourceRetriever);
@@ -0,0 +1,248 @@
+/**
+ * Tool Access Policies
+ * Per-agent allow/deny globs on MCP tool names and argument guards, checked
+ * before a tool is attached to an agent and again before every call
+ */
+import { isAbsolute, relative, resolve } from "path";
+import { z } from "zod";
+import { getEnvVar } from "./env";
+
+/**
+ * Argument check for the tools matching some glob patterns
+ */
+export interface ToolArgumentGuard {
+  /** Glob patterns of the (server-prefixed) tool names the guard applies to */
+  tools: string[];
+  /** Schema the call arguments must satisfy */
+  schema: z.ZodTypeAny;
+  /** Explains the rule to the agent when a call is rejected */
+  description: string;
+}
+
+/**
+ * Which MCP tools an agent may use, and with which arguments
+ */
+export interface ToolAccessPolicy {
+  /** Glob patterns of tools the agent may use; every tool of its bound servers when omitted */
+  allow?: string[];
+  /** Glob patterns of tools the agent may never use; wins over `allow` */
+  deny?: string[];
+  guards?: ToolArgumentGuard[];
+}
+
+/**
+ * Directory the filesystem and git servers are started in (see mcp.servers.yaml)
+ */
+export const workspaceDir = resolve(getEnvVar("MCP_WORKSPACE_DIR", ".") ?? ".");
+
+/**
+ * Match a tool name against a glob pattern (`*` any characters, `?` one character)
+ */
+export function matchesToolGlob(toolName: string, pattern: string): boolean {
+  const source = pattern
+    .split("")
+    .map((char) => (char === "*" ? ".*" : char === "?" ? "." : char.replace(/[.+^${}()|[\]\\]/g, "\\$&")))
+    .join("");
+  return new RegExp(`^${source}$`).test(toolName);
+}
+
+const matchesAny = (toolName: string, patterns: string[] = []) =>
+  patterns.some((pattern) => matchesToolGlob(toolName, pattern));
+
+/**
+ * Guard schema: every path argument (path-like keys such as `path`, `paths`,
+ * `repo_path`, `source`, `destination`) must resolve inside one of the prefixes
+ */
+export function pathPrefixGuard(prefixes: string[]): z.ZodTypeAny {
+  const roots = prefixes.map((prefix) => resolve(workspaceDir, prefix));
+  const isInside = (value: string) =>
+    roots.some((root) => {
+      const path = relative(root, resolve(workspaceDir, value));
+      return path === "" || (!path.startsWith("..") && !isAbsolute(path));
+    });
+
+  return z.record(z.unknown()).superRefine((args, ctx) => {
+    for (const [key, value] of Object.entries(args)) {
+      if (!/path|source|destination/i.test(key)) continue;
+      for (const item of Array.isArray(value) ? value : [value]) {
+        if (typeof item === "string" && !isInside(item)) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, path: [key], message: `${item} is outside ${roots.join(", ")}` });
+        }
+      }
+    }
+  });
+}
+
+const SQL_WRITE_KEYWORDS = /\b(insert|update|delete|merge|upsert|drop|alter|create|truncate|grant|revoke|copy|vacuum|into)\b/i;
+
+/**
+ * Guard schema: the `sql` argument must be a single read-only statement
+ */
+export function readOnlySqlGuard(): z.ZodTypeAny {
+  return z.object({ sql: z.string() }).passthrough().superRefine(({ sql }, ctx) => {
+    const statement = sql.trim().replace(/;\s*$/, "");
+    if (statement.includes(";")) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["sql"], message: "Only a single statement is allowed" });
+    } else if (!/^(select|with|explain|show)\b/i.test(statement) || SQL_WRITE_KEYWORDS.test(statement)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["sql"], message: "Only read-only queries (SELECT, WITH, EXPLAIN, SHOW) are allowed" });
+    }
+  });
+}
+
+/**
+ * Guard schema: GitHub calls with `owner`/`repo` arguments must target one of the repositories ("owner/name")
+ */
+export function allowedReposGuard(repos: string[]): z.ZodTypeAny {
+  const allowed = new Set(repos.map((repo) => repo.toLowerCase()));
+  return z.record(z.unknown()).superRefine((args, ctx) => {
+    if (typeof args.owner !== "string" || typeof args.repo !== "string") return;
+    if (!allowed.has(`${args.owner}/${args.repo}`.toLowerCase())) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["repo"], message: `${args.owner}/${args.repo} is not an allowed repository` });
+    }
+  });
+}
+
+/**
+ * Repositories GitHub tools may touch (GITHUB_ALLOWED_REPOS, comma separated); unrestricted when unset
+ */
+const githubAllowedRepos = (getEnvVar("GITHUB_ALLOWED_REPOS") ?? "")
+  .split(",")
+  .map((repo) => repo.trim())
+  .filter(Boolean);
+
+const workspaceGuard: ToolArgumentGuard = {
+  tools: ["filesystem_*", "git_*"],
+  schema: pathPrefixGuard([workspaceDir]),
+  description: "paths must stay inside the workspace",
+};
+
+/**
+ * Rules of the tools themselves, enforced for every agent on top of its own policy:
+ * destructive tools are off limits, paths stay in the workspace and SQL is read-only
+ */
+export const TOOL_BASELINE_POLICY: ToolAccessPolicy = {
+  deny: [
+    "git_git_reset",
+    "docker_*remove*",
+    "docker_*delete*",
+    "docker_*prune*",
+    "docker_*kill*",
+    "github_delete_*",
+    "github_merge_pull_request",
+  ],
+  guards: [
+    workspaceGuard,
+    { tools: ["postgres_*"], schema: readOnlySqlGuard(), description: "SQL must be read-only" },
+    ...(githubAllowedRepos.length > 0
+      ? [{ tools: ["github_*"], schema: allowedReposGuard(githubAllowedRepos), description: `only ${githubAllowedRepos.join(", ")}` }]
+      : []),
+  ],
+};
+
+/**
+ * Default policies keyed by agent name. Agents without a policy get no MCP tools, so every
+ * agent that binds servers or discovers tools needs an entry here.
+ */
+export const DEFAULT_TOOL_ACCESS_POLICIES: Record<string, ToolAccessPolicy> = {
+  // Delegates changes to the specialists; it may only look things up itself
+  Supervisor: {
+    allow: [
+      "vibe_check_*",
+      "memory_*",
+      "web_search_*",
+      "browser_*",
+      "filesystem_read_*",
+      "filesystem_list_*",
+      "filesystem_search_files",
+      "filesystem_get_file_info",
+      "filesystem_directory_tree",
+      "git_git_status",
+      "git_git_diff*",
+      "git_git_log",
+      "git_git_show",
+      "postgres_*",
+    ],
+  },
+  MathAssistant: { allow: ["vibe_check_*"] },
+  FileManager: { allow: ["filesystem_*", "everything_*", "voltagent_*"] },
+  WebResearcher: { allow: ["web_search_*", "browser_*", "memory_*"] },
+  Developer: {
+    allow: ["git_*", "github_*", "docker_*", "filesystem_*", "everything_*", "voltagent_*", "remote_*", "vibe_check_*"],
+  },
+  DataManager: { allow: ["postgres_*", "filesystem_*"] },
+  Communicator: { allow: ["memory_*", "web_search_*", "browser_*"] },
+  KnowledgeKeeper: { allow: ["memory_*", "vibe_check_*", "web_search_*", "browser_*"] },
+};
+
+/**
+ * Decides which MCP tools agents may see and call
+ */
+export class ToolAccessService {
+  private policies: Map<string, ToolAccessPolicy>;
+
+  constructor(
+    policies: Record<string, ToolAccessPolicy> = DEFAULT_TOOL_ACCESS_POLICIES,
+    private baseline: ToolAccessPolicy = TOOL_BASELINE_POLICY,
+  ) {
+    this.policies = new Map(Object.entries(policies));
+  }
+
+  /**
+   * Policy of an agent, if it has one
+   */
+  getPolicy(agentName: string): ToolAccessPolicy | undefined {
+    return this.policies.get(agentName);
+  }
+
+  /**
+   * Replace the policy of an agent (pass undefined to revoke its MCP tools)
+   */
+  setPolicy(agentName: string, policy: ToolAccessPolicy | undefined): void {
+    if (policy) {
+      this.policies.set(agentName, policy);
+    } else {
+      this.policies.delete(agentName);
+    }
+  }
+
+  /**
+   * Check the baseline deny globs and the agent's allow and deny globs for a tool.
+   * Agents without a policy may use no tool.
+   */
+  isToolAllowed(agentName: string, toolName: string): boolean {
+    const policy = this.getPolicy(agentName);
+    if (!policy || matchesAny(toolName, this.baseline.deny)) {
+      return false;
+    }
+    if (matchesAny(toolName, policy.deny)) {
+      return false;
+    }
+    return !policy.allow || matchesAny(toolName, policy.allow);
+  }
+
+  /**
+   * Reason a call would be rejected, or undefined if the agent may make it
+   */
+  checkCall(agentName: string, toolName: string, args: unknown): string | undefined {
+    if (!this.getPolicy(agentName)) {
+      return `${agentName} has no tool access policy and may not use MCP tools`;
+    }
+    if (!this.isToolAllowed(agentName, toolName)) {
+      return `${agentName} is not allowed to use ${toolName}`;
+    }
+    for (const guard of [...(this.baseline.guards ?? []), ...(this.getPolicy(agentName)?.guards ?? [])]) {
+      if (!matchesAny(toolName, guard.tools)) continue;
+      const result = guard.schema.safeParse(args ?? {});
+      if (!result.success) {
+        const issues = result.error.issues
+          .map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`)
+          .join("; ");
+        return `${agentName} may not call ${toolName} with these arguments (${guard.description}): ${issues}`;
+      }
+    }
+    return undefined;
+  }
+}
+
+// Export singleton instance
+export const toolAccessService = new ToolAccessService();
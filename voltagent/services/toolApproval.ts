@@ -0,0 +1,238 @@
+/* global console */
+/**
+ * Tool Approval Service
+ * Pauses sensitive tool calls until the user approves or rejects them in the chat
+ */
+import { randomUUID, timingSafeEqual } from "node:crypto";
+import { redactArgs } from "./auditLog";
+import { getEnvVar } from "./env";
+
+/**
+ * A tool call waiting for a decision
+ */
+export interface ToolApprovalRequest {
+  id: string;
+  toolName: string;
+  serverKey: string;
+  agentName?: string;
+  args: unknown;
+  userId?: string;
+  conversationId?: string;
+  requestedAt: string;
+  /** The call is rejected automatically after this time */
+  expiresAt: string;
+}
+
+/**
+ * Outcome of an approval request
+ */
+export interface ToolApprovalDecision extends ToolApprovalRequest {
+  approved: boolean;
+  /** User who decided, or "system" for timeouts and cancellations */
+  decidedBy: string;
+  decidedAt: string;
+  reason?: string;
+}
+
+/**
+ * What clients may see of a request: arguments redacted, no user id
+ */
+export type ClientApprovalRequest = Omit<ToolApprovalRequest, "userId">;
+
+/**
+ * What clients may see of a decision; `decidedBy` is "user" or "system"
+ */
+export type ClientApprovalDecision = Omit<ToolApprovalDecision, "userId">;
+
+/**
+ * Receives new requests of a conversation with the token that is needed to decide on them.
+ * The token must only be sent to the client of that conversation.
+ */
+export type ToolApprovalListener = (request: ClientApprovalRequest, token: string) => void;
+
+/**
+ * Result of a decision posted by a client
+ */
+export type ClientDecisionResult =
+  | { status: "decided"; decision: ClientApprovalDecision }
+  | { status: "not_found" }
+  | { status: "forbidden" };
+
+/**
+ * How long a call waits for a decision (TOOL_APPROVAL_TIMEOUT_MS)
+ */
+export const DEFAULT_APPROVAL_TIMEOUT_MS = Number(getEnvVar("TOOL_APPROVAL_TIMEOUT_MS", "300000"));
+
+const MAX_DECISIONS = 500;
+
+/**
+ * Tracks pending approval requests per conversation and the decisions made on them
+ */
+export class ToolApprovalService {
+  private pending: Map<string, {
+    request: ToolApprovalRequest;
+    resolve: (decision: ToolApprovalDecision) => void;
+    /** Handed only to the conversation's chat stream */
+    token: string;
+    timer: ReturnType<typeof setTimeout>;
+    /** Stops listening for the run being cancelled */
+    removeAbortListener?: () => void;
+  }> = new Map();
+  private listeners: Map<string, Set<ToolApprovalListener>> = new Map();
+  private decisions: ToolApprovalDecision[] = [];
+
+  constructor(private timeoutMs: number = DEFAULT_APPROVAL_TIMEOUT_MS) {}
+
+  /**
+   * Receive approval requests of a conversation (e.g. to forward them over the chat stream).
+   * Returns an unsubscribe function.
+   */
+  subscribe(conversationId: string, listener: ToolApprovalListener): () => void {
+    const listeners = this.listeners.get(conversationId) ?? new Set<ToolApprovalListener>();
+    listeners.add(listener);
+    this.listeners.set(conversationId, listeners);
+    return () => {
+      listeners.delete(listener);
+      if (listeners.size === 0) {
+        this.listeners.delete(conversationId);
+      }
+    };
+  }
+
+  /**
+   * Ask the user of a conversation to approve a call and wait for the decision.
+   * Calls nobody can see are rejected right away; unanswered ones time out.
+   */
+  requestApproval(
+    call: Pick<ToolApprovalRequest, "toolName" | "serverKey" | "agentName" | "args" | "userId" | "conversationId">,
+    signal?: AbortSignal,
+  ): Promise<ToolApprovalDecision> {
+    const now = Date.now();
+    const request: ToolApprovalRequest = {
+      ...call,
+      id: `approval-${now}-${Math.random().toString(36).substring(2, 8)}`,
+      requestedAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + this.timeoutMs).toISOString(),
+    };
+    const listeners = call.conversationId ? this.listeners.get(call.conversationId) : undefined;
+    if (!listeners || listeners.size === 0) {
+      return Promise.resolve(this.record(request, false, "system", "No chat client is connected to approve the call"));
+    }
+
+    if (signal?.aborted) {
+      return Promise.resolve(this.record(request, false, "system", "Run was cancelled"));
+    }
+
+    const token = randomUUID();
+    const onAbort = () => this.decide(request.id, false, "system", "Run was cancelled");
+    const decision = new Promise<ToolApprovalDecision>((resolve) => {
+      const timer = setTimeout(() => this.decide(request.id, false, "system", "Approval timed out"), this.timeoutMs);
+      const removeAbortListener = signal ? () => signal.removeEventListener("abort", onAbort) : undefined;
+      this.pending.set(request.id, { request, resolve, token, timer, removeAbortListener });
+    });
+    signal?.addEventListener("abort", onAbort, { once: true });
+
+    console.log(`✋ Waiting for approval of ${request.toolName} (${request.id})`);
+    for (const listener of listeners) {
+      try {
+        listener(this.toClientRequest(request), token);
+      } catch (error) {
+        console.error("❌ Failed to deliver approval request:", error);
+      }
+    }
+    return decision;
+  }
+
+  /**
+   * Settle a pending request on behalf of the conversation's user. The decision counts only
+   * with the token sent over that conversation's chat stream; the decider is the user of the
+   * server-side session that made the call, never a value supplied by the client.
+   */
+  decideAsUser(requestId: string, token: string, approved: boolean, reason?: string): ClientDecisionResult {
+    const entry = this.pending.get(requestId);
+    if (!entry) {
+      return { status: "not_found" };
+    }
+    const expected = Buffer.from(entry.token);
+    const given = Buffer.from(token);
+    if (expected.length !== given.length || !timingSafeEqual(expected, given)) {
+      return { status: "forbidden" };
+    }
+    const decision = this.decide(requestId, approved, entry.request.userId || "anonymous", reason);
+    return decision ? { status: "decided", decision: this.toClientDecision(decision) } : { status: "not_found" };
+  }
+
+  /**
+   * Settle a pending request. Returns undefined if it is unknown or already settled.
+   */
+  decide(requestId: string, approved: boolean, decidedBy: string, reason?: string): ToolApprovalDecision | undefined {
+    const entry = this.pending.get(requestId);
+    if (!entry) {
+      return undefined;
+    }
+    this.pending.delete(requestId);
+    clearTimeout(entry.timer);
+    entry.removeAbortListener?.();
+    const decision = this.record(entry.request, approved, decidedBy, reason);
+    entry.resolve(decision);
+    return decision;
+  }
+
+  private record(request: ToolApprovalRequest, approved: boolean, decidedBy: string, reason?: string): ToolApprovalDecision {
+    const decision: ToolApprovalDecision = { ...request, approved, decidedBy, decidedAt: new Date().toISOString(), reason };
+    this.decisions.push(decision);
+    if (this.decisions.length > MAX_DECISIONS) {
+      this.decisions.shift();
+    }
+    console.log(`${approved ? "✅" : "⛔"} ${request.toolName} ${approved ? "approved" : "rejected"} by ${decidedBy}${reason ? ` (${reason})` : ""}`);
+    return decision;
+  }
+
+  /**
+   * Client view of a request: arguments redacted the way the audit log stores them, user id removed
+   */
+  toClientRequest(request: ToolApprovalRequest): ClientApprovalRequest {
+    const client: Partial<ToolApprovalRequest> = { ...request, args: redactArgs(request.args) };
+    delete client.userId;
+    return client as ClientApprovalRequest;
+  }
+
+  private toClientDecision(decision: ToolApprovalDecision): ClientApprovalDecision {
+    return {
+      ...this.toClientRequest(decision),
+      approved: decision.approved,
+      decidedBy: decision.decidedBy === "system" ? "system" : "user",
+      decidedAt: decision.decidedAt,
+      reason: decision.reason,
+    };
+  }
+
+  /**
+   * Pending requests and recent decisions of one conversation, as clients may see them
+   */
+  getConversationState(conversationId: string): { pending: ClientApprovalRequest[]; decisions: ClientApprovalDecision[] } {
+    return {
+      pending: this.getPending(conversationId).map((request) => this.toClientRequest(request)),
+      decisions: this.getDecisions(conversationId).map((decision) => this.toClientDecision(decision)),
+    };
+  }
+
+  /**
+   * Requests still waiting for a decision
+   */
+  getPending(conversationId?: string): ToolApprovalRequest[] {
+    return Array.from(this.pending.values())
+      .map(({ request }) => request)
+      .filter((request) => !conversationId || request.conversationId === conversationId);
+  }
+
+  /**
+   * Recent decisions, oldest first
+   */
+  getDecisions(conversationId?: string): ToolApprovalDecision[] {
+    return this.decisions.filter((decision) => !conversationId || decision.conversationId === conversationId);
+  }
+}
+
+// Export singleton instance
+export const toolApprovalService = new ToolApprovalService();
@@ -0,0 +1,177 @@
+/* global console */
+/**
+ * Tool Discovery Service
+ * Lets agents search the MCP tool catalog and acquire tools for a single run,
+ * limited by per-agent category policies
+ */
+import { zodSchemaToJsonUI, type ToolExecuteOptions } from "@voltagent/core";
+import type { z } from "zod";
+import { mcpToolsService, type MCPToolsService } from "./mcp";
+import { toolAccessService } from "./toolAccess";
+import { appendAcquiredTool, appendToolCallOutcome, readContextValue, takeToolCallOutcome } from "./contextKeys";
+
+/** Name of the meta-tool that runs discovered tools */
+export const USE_DISCOVERED_TOOL = "use_discovered_tool";
+
+/**
+ * Which tool categories an agent may acquire at runtime
+ */
+export interface ToolDiscoveryPolicy {
+  /** Server categories the agent may acquire tools from; "*" allows every category */
+  categories: string[];
+  /** Upper bound on tools acquired in one run */
+  maxToolsPerRun: number;
+}
+
+/**
+ * Default policies keyed by agent name. Agents without a policy cannot acquire tools.
+ */
+export const DEFAULT_TOOL_DISCOVERY_POLICIES: Record<string, ToolDiscoveryPolicy> = {
+  Supervisor: { categories: ["*"], maxToolsPerRun: 3 },
+  MathAssistant: { categories: ["thinking"], maxToolsPerRun: 2 },
+  FileManager: { categories: ["filesystem", "development"], maxToolsPerRun: 5 },
+  WebResearcher: { categories: ["web", "memory"], maxToolsPerRun: 5 },
+  Developer: { categories: ["development", "git", "filesystem", "thinking"], maxToolsPerRun: 5 },
+  DataManager: { categories: ["database", "filesystem"], maxToolsPerRun: 5 },
+  Communicator: { categories: ["memory", "web"], maxToolsPerRun: 3 },
+  KnowledgeKeeper: { categories: ["memory", "thinking", "web"], maxToolsPerRun: 5 },
+};
+
+/**
+ * Catalog entry returned to an agent searching for tools
+ */
+export interface ToolCatalogEntry {
+  name: string;
+  description: string;
+  serverKey: string;
+  category: string;
+  parameters: unknown;
+}
+
+/**
+ * Searches the MCP tool catalog and runs acquired tools on behalf of agents
+ */
+export class ToolDiscoveryService {
+  private policies: Map<string, ToolDiscoveryPolicy>;
+
+  constructor(
+    private tools: MCPToolsService = mcpToolsService,
+    policies: Record<string, ToolDiscoveryPolicy> = DEFAULT_TOOL_DISCOVERY_POLICIES,
+  ) {
+    this.policies = new Map(Object.entries(policies));
+  }
+
+  /**
+   * Policy of an agent, if it may discover tools at all
+   */
+  getPolicy(agentName: string): ToolDiscoveryPolicy | undefined {
+    return this.policies.get(agentName);
+  }
+
+  /**
+   * Replace the policy of an agent (pass undefined to revoke discovery)
+   */
+  setPolicy(agentName: string, policy: ToolDiscoveryPolicy | undefined): void {
+    if (policy) {
+      this.policies.set(agentName, policy);
+    } else {
+      this.policies.delete(agentName);
+    }
+  }
+
+  /**
+   * Check if an agent may acquire tools of a category
+   */
+  isCategoryAllowed(agentName: string, category: string): boolean {
+    const categories = this.getPolicy(agentName)?.categories ?? [];
+    return categories.includes("*") || categories.includes(category);
+  }
+
+  /**
+   * Search tools the agent may acquire, ranked by the number of query words
+   * found in their name or description
+   */
+  search(agentName: string, query: string, limit = 5): ToolCatalogEntry[] {
+    const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+    if (words.length === 0) {
+      return [];
+    }
+    return this.tools.getTools()
+      .map((tool) => {
+        const serverKey = this.tools.getToolServer(tool.name) ?? "";
+        const haystack = `${tool.name.replace(/_/g, " ")} ${tool.description ?? ""}`.toLowerCase();
+        return {
+          tool,
+          serverKey,
+          category: this.tools.getServerCategory(serverKey),
+          score: words.filter((word) => haystack.includes(word)).length,
+        };
+      })
+      .filter(({ tool, score, category }) =>
+        score > 0 && this.isCategoryAllowed(agentName, category) && toolAccessService.isToolAllowed(agentName, tool.name))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit)
+      .map(({ tool, serverKey, category }) => ({
+        name: tool.name,
+        description: tool.description,
+        serverKey,
+        category,
+        parameters: zodSchemaToJsonUI(tool.parameters),
+      }));
+  }
+
+  /**
+   * Run a catalog tool for an agent. The tool is acquired for the current run on
+   * first use, subject to the agent's category policy, tool access policy and per-run limit.
+   */
+  async execute(agentName: string, toolName: string, args: unknown, options?: ToolExecuteOptions): Promise<unknown> {
+    const userContext = options?.operationContext?.userContext;
+    if (!userContext) {
+      throw new Error("Tool discovery is only available inside an agent run");
+    }
+    const tool = this.tools.getTool(toolName);
+    const serverKey = this.tools.getToolServer(toolName);
+    if (!tool || !serverKey) {
+      throw new Error(`Tool "${toolName}" is not in the catalog (use discover_tools to search for tools)`);
+    }
+    const category = this.tools.getServerCategory(serverKey);
+    if (!this.isCategoryAllowed(agentName, category)) {
+      throw new Error(`${agentName} may not use "${category}" tools; delegate to an agent that can`);
+    }
+
+    try {
+      // Checked before acquiring, so a rejected call does not use up the per-run limit
+      this.tools.enforceAccess(agentName, toolName, args ?? {}, options);
+
+      const acquired = (readContextValue(userContext, "acquiredTools") ?? [])
+        .filter((entry) => entry.agentName === agentName);
+      if (!acquired.some((entry) => entry.toolName === toolName)) {
+        const limit = this.getPolicy(agentName)?.maxToolsPerRun ?? 0;
+        if (acquired.length >= limit) {
+          throw new Error(`${agentName} already acquired ${acquired.length} tools in this run (limit ${limit})`);
+        }
+        appendAcquiredTool(userContext, { toolName, serverKey, category, agentName });
+        console.log(`🧰 ${agentName} acquired ${toolName} (${category}) for this run`);
+      }
+
+      const schema: z.ZodTypeAny = tool.parameters;
+      const parsed = schema.safeParse(args ?? {});
+      if (!parsed.success) {
+        const issues = parsed.error.issues
+          .map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`)
+          .join("; ");
+        throw new Error(`Invalid arguments for ${toolName}: ${issues}`);
+      }
+      return await this.tools.executeTool(toolName, parsed.data, options);
+    } finally {
+      // onToolEnd sees the meta-tool, so queue the call outcome under its name
+      const outcome = takeToolCallOutcome(userContext, toolName, typeof options?.toolCallId === "string" ? options.toolCallId : undefined);
+      if (outcome) {
+        appendToolCallOutcome(userContext, { ...outcome, toolName: USE_DISCOVERED_TOOL });
+      }
+    }
+  }
+}
+
+// Export singleton instance
+export const toolDiscoveryService = new ToolDiscoveryService();
@@ -0,0 +1,202 @@
+/* global console */
+/**
+ * Tool Preselection Service
+ * Embeds tool descriptions once and sends only the tools most relevant to the
+ * current request (plus always-included tools such as the reasoning toolkit)
+ */
+import { AsyncLocalStorage } from "node:async_hooks";
+import { embedMany } from "ai";
+import type { BaseMessage, BaseTool } from "@voltagent/core";
+import { createGeminiEmbeddingModel, GEMINI_CONFIG } from "../config/googleProvider";
+import { getEnvVar } from "./env";
+
+/**
+ * Turns texts into embedding vectors
+ */
+export type TextEmbedder = (texts: string[]) => Promise<number[][]>;
+
+/**
+ * Preselection settings
+ */
+export interface ToolSelectionOptions {
+  /** Tools sent per call besides the always-included ones */
+  topK: number;
+  /** Agents with at most this many tools are left alone */
+  minToolsToFilter: number;
+  /** Tool names that are never filtered out */
+  alwaysInclude: string[];
+}
+
+export const DEFAULT_TOOL_SELECTION_OPTIONS: ToolSelectionOptions = {
+  topK: Number(getEnvVar("TOOL_PRESELECTION_TOP_K", "8")),
+  minToolsToFilter: 12,
+  alwaysInclude: ["think", "analyze", "delegate_task", "discover_tools", "use_discovered_tool"],
+};
+
+/**
+ * Whether preselection is turned on (TOOL_PRESELECTION=true)
+ */
+export const toolPreselectionEnabled = getEnvVar("TOOL_PRESELECTION", "false")?.toLowerCase() === "true";
+
+/**
+ * Result of selecting tools for one call
+ */
+export interface ToolSelection<T extends { name: string }> {
+  selected: T[];
+  filteredOut: string[];
+}
+
+/**
+ * Agent runs whose tool list should be preselected
+ */
+const PRESELECTED_AGENT_METHODS = ["generateText", "streamText", "generateObject", "streamObject"] as const;
+
+/**
+ * Gemini embeddings through the AI SDK
+ */
+const embedWithGemini: TextEmbedder = async (texts) => {
+  const { embeddings } = await embedMany({
+    model: createGeminiEmbeddingModel(GEMINI_CONFIG.EMBEDDING_MODELS.TEXT_EMBEDDING_004, { outputDimensionality: 768 }),
+    values: texts,
+  });
+  return embeddings;
+};
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/**
+ * Text of the latest user message of an agent input
+ */
+function getQueryText(input: unknown): string {
+  if (typeof input === "string") {
+    return input;
+  }
+  if (!Array.isArray(input)) {
+    return "";
+  }
+  const messages = input as BaseMessage[];
+  const message = [...messages].reverse().find((entry) => entry.role === "user") ?? messages[messages.length - 1];
+  if (!message) {
+    return "";
+  }
+  if (typeof message.content === "string") {
+    return message.content;
+  }
+  return (message.content as Array<{ type: string; text?: string }>)
+    .map((part) => (part.type === "text" ? part.text ?? "" : ""))
+    .join(" ");
+}
+
+/**
+ * Ranks tools against the request text and trims the list sent to the model
+ */
+export class ToolSelectionService {
+  private toolEmbeddings: Map<string, number[]> = new Map();
+  private currentQuery = new AsyncLocalStorage<string>();
+  readonly options: ToolSelectionOptions;
+
+  constructor(private embed: TextEmbedder = embedWithGemini, options: Partial<ToolSelectionOptions> = {}) {
+    this.options = { ...DEFAULT_TOOL_SELECTION_OPTIONS, ...options };
+  }
+
+  /**
+   * Embedding cache key; a changed description is embedded again
+   */
+  private describe(tool: { name: string; description?: string }): string {
+    return `${tool.name.replace(/_/g, " ")}: ${tool.description ?? ""}`;
+  }
+
+  /**
+   * Embed the tools that are not cached yet
+   */
+  private async embedTools(tools: Array<{ name: string; description?: string }>): Promise<void> {
+    const missing = Array.from(new Set(tools.map((tool) => this.describe(tool))))
+      .filter((text) => !this.toolEmbeddings.has(text));
+    if (missing.length === 0) {
+      return;
+    }
+    const vectors = await this.embed(missing);
+    missing.forEach((text, index) => this.toolEmbeddings.set(text, vectors[index]));
+  }
+
+  /**
+   * Keep the always-included tools and the top-k tools most similar to the query.
+   * If embedding fails every tool is kept.
+   */
+  async selectTools<T extends { name: string; description?: string }>(
+    agentName: string,
+    tools: T[],
+    query: string,
+  ): Promise<ToolSelection<T>> {
+    const { topK, minToolsToFilter, alwaysInclude } = this.options;
+    const candidates = tools.filter((tool) => !alwaysInclude.includes(tool.name));
+    if (!query.trim() || tools.length <= minToolsToFilter || candidates.length <= topK) {
+      return { selected: tools, filteredOut: [] };
+    }
+
+    try {
+      await this.embedTools(candidates);
+      const [queryVector] = await this.embed([query]);
+      const kept = new Set(
+        candidates
+          .map((tool) => ({
+            name: tool.name,
+            score: cosineSimilarity(queryVector, this.toolEmbeddings.get(this.describe(tool)) ?? []),
+          }))
+          .sort((a, b) => b.score - a.score)
+          .slice(0, topK)
+          .map(({ name }) => name),
+      );
+      const selected = tools.filter((tool) => alwaysInclude.includes(tool.name) || kept.has(tool.name));
+      const filteredOut = candidates.filter((tool) => !kept.has(tool.name)).map((tool) => tool.name);
+      console.log(`🎯 ${agentName}: sending ${selected.length}/${tools.length} tools, filtered out: ${filteredOut.join(", ")}`);
+      return { selected, filteredOut };
+    } catch (error) {
+      console.warn(`⚠️  Tool preselection failed for ${agentName}, sending all tools:`, error instanceof Error ? error.message : error);
+      return { selected: tools, filteredOut: [] };
+    }
+  }
+
+  /**
+   * Preselect the tools of every run of an agent. The request text is captured
+   * when a run starts and used when the agent prepares its tool list.
+   */
+  enableFor<T extends { name: string }>(agent: T): T {
+    const target = agent as unknown as Record<string, unknown>;
+    for (const method of PRESELECTED_AGENT_METHODS) {
+      const original = target[method];
+      if (typeof original !== "function") continue;
+      target[method] = (input: unknown, ...rest: unknown[]) =>
+        this.currentQuery.run(getQueryText(input), () =>
+          (original as (...params: unknown[]) => unknown).apply(agent, [input, ...rest]),
+        );
+    }
+
+    const prepare = target.prepareTextOptions;
+    if (typeof prepare === "function") {
+      target.prepareTextOptions = async (...args: unknown[]) => {
+        const prepared = await (prepare as (...params: unknown[]) => Promise<{ tools: BaseTool[] }>).apply(agent, args);
+        const query = this.currentQuery.getStore();
+        if (!query) {
+          return prepared;
+        }
+        const { selected } = await this.selectTools(agent.name, prepared.tools, query);
+        return { ...prepared, tools: selected };
+      };
+    }
+    return agent;
+  }
+}
+
+// Export singleton instance
+export const toolSelectionService = new ToolSelectionService();
@@ -0,0 +1,285 @@
+/**
+ * Tool Timeline
+ * Tracks tool calls by their tool call id, records which calls ran in parallel and
+ * keeps a per-operation timeline for the UI and analytics
+ */
+import type { BaseTool, OnToolEndHookArgs, ToolExecuteOptions } from "@voltagent/core";
+import type { ToolCallOutcome } from "./contextKeys";
+import { auditToolCall } from "./auditLog";
+import { redactionService } from "./redaction";
+
+/**
+ * One tool call of an operation
+ */
+export interface ToolCallRecord {
+  /** Id of the model's tool call, or `untracked-<n>` when the tool was run without one */
+  toolCallId: string;
+  toolName: string;
+  agentName: string;
+  operationId: string;
+  /** Supervisor operation when the call was made by a sub-agent */
+  parentOperationId?: string;
+  userId?: string;
+  conversationId?: string;
+  args?: unknown;
+  startTime: string;
+  startTimestamp: number;
+  endTimestamp?: number;
+  durationMs?: number;
+  status: "running" | "success" | "error";
+  error?: string;
+  outcome?: ToolCallOutcome;
+  /** Calls of the same run that were in flight at some point during this call */
+  overlapsWith: string[];
+  /** Most calls in flight at once (including this one) while this call ran */
+  maxConcurrency: number;
+}
+
+/**
+ * Tool calls of an operation (and its sub-agent operations) in start order
+ */
+export interface ToolTimeline {
+  operationId: string;
+  calls: ToolCallRecord[];
+  /** Most calls in flight at once */
+  maxConcurrency: number;
+  /** Calls that overlapped with at least one other call */
+  parallelCalls: number;
+  /** Sum of call durations */
+  totalDurationMs: number;
+  /** Time from the first call's start to the last call's end */
+  wallClockMs: number;
+}
+
+const MAX_OPERATIONS = 200;
+
+/**
+ * Operation a tool runs in (the context the agent hooks receive)
+ */
+type ToolRunContext = OnToolEndHookArgs["context"];
+
+/**
+ * Error of a tool result. The agent returns thrown tool errors as `{ error: true, message }`.
+ */
+const resultError = (result: unknown): string | undefined => {
+  if (result && typeof result === "object" && (result as { error?: unknown }).error === true) {
+    const message = (result as { message?: unknown }).message;
+    return typeof message === "string" ? message : "Tool call failed";
+  }
+  return undefined;
+};
+
+/**
+ * Tool call bookkeeping shared by the agent hooks
+ */
+export class ToolTimelineService {
+  /** Calls per run, keyed by the conversation steps array that a supervisor shares with its sub-agents */
+  private runs = new WeakMap<object, Map<string, ToolCallRecord>>();
+  /** Calls per operation, oldest operation first */
+  private operations = new Map<string, ToolCallRecord[]>();
+  private children = new Map<string, Set<string>>();
+  /** Results of finished calls whose onToolEnd hook has not run yet */
+  private unsettled = new WeakMap<ToolCallRecord, unknown>();
+  private untrackedCalls = 0;
+
+  private getRun(context: ToolRunContext): Map<string, ToolCallRecord> {
+    const key = context.conversationSteps ?? context.userContext;
+    let calls = this.runs.get(key);
+    if (!calls) {
+      calls = new Map();
+      this.runs.set(key, calls);
+    }
+    return calls;
+  }
+
+  private addToOperation(call: ToolCallRecord): void {
+    const calls = this.operations.get(call.operationId) ?? [];
+    calls.push(call);
+    this.operations.delete(call.operationId);
+    this.operations.set(call.operationId, calls);
+    if (call.parentOperationId) {
+      const children = this.children.get(call.parentOperationId) ?? new Set();
+      children.add(call.operationId);
+      this.children.set(call.parentOperationId, children);
+    }
+    while (this.operations.size > MAX_OPERATIONS) {
+      const oldest = this.operations.keys().next().value as string;
+      this.operations.delete(oldest);
+      this.children.delete(oldest);
+    }
+  }
+
+  /**
+   * Time every tool call of an agent where it executes, keyed by the model's tool call id.
+   * The tool hooks run when the model's step is processed, which can be after the call
+   * finished, and are not given the call id or arguments.
+   */
+  instrumentAgent<T extends { name: string }>(agent: T): T {
+    const target = agent as unknown as Record<string, unknown>;
+    const prepare = target.prepareTextOptions;
+    if (typeof prepare === "function") {
+      target.prepareTextOptions = async (options: { operationContext?: ToolRunContext } = {}, ...rest: unknown[]) => {
+        const prepared = await (prepare as (...params: unknown[]) => Promise<{ tools: BaseTool[] }>).apply(agent, [options, ...rest]);
+        const context = options.operationContext;
+        if (!context) {
+          return prepared;
+        }
+        return {
+          ...prepared,
+          tools: prepared.tools.map((tool) => ({
+            ...tool,
+            execute: (args: unknown, execOptions?: ToolExecuteOptions) =>
+              this.trackExecution({ toolName: tool.name, agentName: agent.name, args, toolCallId: execOptions?.toolCallId, context }, () =>
+                tool.execute(args, execOptions),
+              ),
+          })),
+        };
+      };
+    }
+    return agent;
+  }
+
+  /**
+   * Run a tool call, record its start, end, arguments and result and write its audit entry
+   */
+  async trackExecution<T>(
+    call: { toolName: string; agentName: string; args: unknown; toolCallId?: string; context: ToolRunContext },
+    execute: () => Promise<T>,
+  ): Promise<T> {
+    const record = this.startCall(call);
+    try {
+      const result = await execute();
+      this.finishCall(record, resultError(result));
+      this.unsettled.set(record, result);
+      auditToolCall(record, result);
+      return result;
+    } catch (error) {
+      this.finishCall(record, error instanceof Error ? error.message : String(error));
+      this.unsettled.set(record, undefined);
+      auditToolCall(record, undefined);
+      throw error;
+    }
+  }
+
+  /**
+   * Record the start of a tool call and link it to the calls already in flight
+   */
+  startCall(call: { toolName: string; agentName: string; args: unknown; toolCallId?: string; context: ToolRunContext }): ToolCallRecord {
+    const { context } = call;
+    const calls = this.getRun(context);
+    const running = Array.from(calls.values()).filter((other) => other.status === "running");
+    const toolCallId = call.toolCallId && !calls.has(call.toolCallId) ? call.toolCallId : `untracked-${++this.untrackedCalls}`;
+    const record: ToolCallRecord = {
+      toolCallId,
+      toolName: call.toolName,
+      agentName: call.agentName,
+      operationId: context.operationId,
+      parentOperationId: context.parentHistoryEntryId,
+      userId: context.historyEntry?.userId,
+      conversationId: context.historyEntry?.conversationId,
+      args: call.args,
+      startTime: new Date().toISOString(),
+      startTimestamp: Date.now(),
+      status: "running",
+      overlapsWith: running.map((other) => other.toolCallId),
+      maxConcurrency: running.length + 1,
+    };
+    for (const other of running) {
+      other.overlapsWith.push(record.toolCallId);
+      other.maxConcurrency = Math.max(other.maxConcurrency, running.length + 1);
+    }
+    calls.set(record.toolCallId, record);
+    this.addToOperation(record);
+    return record;
+  }
+
+  /**
+   * Close a call with its result
+   */
+  finishCall(call: ToolCallRecord, errorMessage?: string): void {
+    call.endTimestamp = Date.now();
+    call.durationMs = call.endTimestamp - call.startTimestamp;
+    call.status = errorMessage ? "error" : "success";
+    call.error = errorMessage && redactionService.redactText(errorMessage);
+  }
+
+  /**
+   * Attach the policy outcome an MCP call reported; a failed outcome marks the call failed
+   */
+  recordOutcome(call: ToolCallRecord, outcome?: ToolCallOutcome): void {
+    call.outcome = outcome;
+    if (outcome && outcome.status !== "success" && call.status === "success") {
+      call.status = "error";
+      call.error = redactionService.redactText(outcome.error ?? outcome.status);
+    }
+  }
+
+  /**
+   * The finished call an onToolEnd hook reports, matched by its result (the hook gets the
+   * object the tool returned), else the oldest unreported call of that tool. Each call is
+   * handed out once.
+   */
+  settleCall(args: OnToolEndHookArgs): ToolCallRecord | undefined {
+    const finished = Array.from(this.getRun(args.context).values()).filter((call) =>
+      this.unsettled.has(call) && call.toolName === args.tool.name && call.agentName === args.agent.name,
+    );
+    const call = finished.find((candidate) => this.unsettled.get(candidate) === args.output) ?? finished[0];
+    if (call) {
+      this.unsettled.delete(call);
+    }
+    return call;
+  }
+
+  /**
+   * Timeline of an operation, by default including the calls of its sub-agent operations.
+   * Arguments are redacted. With a userId, only that user's calls are included.
+   */
+  getTimeline(operationId: string, options: { includeSubAgents?: boolean; userId?: string } = {}): ToolTimeline {
+    const { includeSubAgents = true, userId } = options;
+    const operationIds = [operationId];
+    for (let index = 0; includeSubAgents && index < operationIds.length; index++) {
+      operationIds.push(...(this.children.get(operationIds[index]) ?? []));
+    }
+    const calls = operationIds
+      .flatMap((id) => this.operations.get(id) ?? [])
+      .filter((call) => userId === undefined || call.userId === userId)
+      .sort((a, b) => a.startTimestamp - b.startTimestamp)
+      .map((call) => ({ ...call, args: redactionService.redact(call.args), overlapsWith: [...call.overlapsWith] }));
+
+    const firstStart = calls[0]?.startTimestamp ?? 0;
+    const lastEnd = Math.max(firstStart, ...calls.map((call) => call.endTimestamp ?? Date.now()));
+    return {
+      operationId,
+      calls,
+      maxConcurrency: Math.max(0, ...calls.map((call) => call.maxConcurrency)),
+      parallelCalls: calls.filter((call) => call.overlapsWith.length > 0).length,
+      totalDurationMs: calls.reduce((sum, call) => sum + (call.durationMs ?? 0), 0),
+      wallClockMs: lastEnd - firstStart,
+    };
+  }
+
+  /**
+   * Top-level timelines of a conversation, oldest first (only a user's own calls when a userId is given)
+   */
+  getConversationTimelines(conversationId: string, userId?: string): ToolTimeline[] {
+    return Array.from(this.operations.entries())
+      .filter(([, calls]) => calls.some((call) =>
+        call.conversationId === conversationId && !call.parentOperationId && (userId === undefined || call.userId === userId),
+      ))
+      .map(([operationId]) => this.getTimeline(operationId, { userId }));
+  }
+
+  /**
+   * Recently tracked operation ids, newest first (only operations with calls of a user when a userId is given)
+   */
+  getRecentOperations(limit = 50, userId?: string): string[] {
+    return Array.from(this.operations.entries())
+      .filter(([, calls]) => userId === undefined || calls.some((call) => call.userId === userId))
+      .map(([operationId]) => operationId)
+      .reverse()
+      .slice(0, limit);
+  }
+}
+
+// Export singleton instance
+export const toolTimelineService = new ToolTimelineService();
@@ -0,0 +1,346 @@
+/* global console */
+/**
+ * Usage Ledger
+ * Token and cost totals per user, conversation, agent, model and day in LibSQL,
+ * plus per-user budgets that block new requests once they are spent
+ */
+import type { Client } from "@libsql/client";
+import type { OnEndHookArgs } from "@voltagent/core";
+import { GEMINI_PRICING, getCachedTokenCount, type GeminiModelPricing } from "../config/googleProvider";
+import { databaseClient } from "./database";
+
+/**
+ * Token counts of one model call or agent run
+ */
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  /** Prompt tokens served from the Gemini context cache (part of promptTokens) */
+  cachedTokens?: number;
+}
+
+/**
+ * One agent run as added to the ledger
+ */
+export interface UsageRecord extends TokenUsage {
+  userId: string;
+  conversationId: string;
+  agentName: string;
+  model: string;
+  costUsd: number;
+  /** Defaults to now */
+  timestamp?: string;
+}
+
+export type UsageGroupBy = "day" | "user" | "conversation" | "agent" | "model";
+
+/**
+ * Filters for querying spend; days are inclusive `YYYY-MM-DD` strings
+ */
+export interface UsageQuery {
+  userId?: string;
+  conversationId?: string;
+  agentName?: string;
+  from?: string;
+  to?: string;
+  groupBy?: UsageGroupBy;
+}
+
+export interface UsageTotals {
+  /** Value of the grouping column, absent for ungrouped totals */
+  key?: string;
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  cachedTokens: number;
+  totalTokens: number;
+  costUsd: number;
+}
+
+export type BudgetPeriod = "day" | "month" | "total";
+
+export interface UsageBudget {
+  userId: string;
+  limitUsd: number;
+  period: BudgetPeriod;
+  updatedAt: string;
+}
+
+export interface BudgetStatus {
+  budget?: UsageBudget;
+  spentUsd: number;
+  remainingUsd?: number;
+  exceeded: boolean;
+}
+
+/**
+ * Cost in USD of a call to a Gemini model; unknown models cost 0
+ */
+export function estimateCost(model: string, usage: TokenUsage): number {
+  const pricing: GeminiModelPricing | undefined = GEMINI_PRICING[model.replace(/^models\//, "") as keyof typeof GEMINI_PRICING];
+  if (!pricing) {
+    return 0;
+  }
+  const rates = pricing.longContext && pricing.longContextThreshold && usage.promptTokens > pricing.longContextThreshold
+    ? pricing.longContext
+    : pricing;
+  const cachedTokens = Math.min(usage.cachedTokens ?? 0, usage.promptTokens);
+  return (
+    (usage.promptTokens - cachedTokens) * rates.input +
+    cachedTokens * rates.cachedInput +
+    usage.completionTokens * rates.output
+  ) / 1_000_000;
+}
+
+const GROUP_COLUMNS: Record<UsageGroupBy, string> = {
+  day: "day",
+  user: "user_id",
+  conversation: "conversation_id",
+  agent: "agent_name",
+  model: "model",
+};
+
+/**
+ * First day counted towards a budget period
+ */
+const periodStart = (period: BudgetPeriod, now = new Date()): string | undefined => {
+  const day = now.toISOString().slice(0, 10);
+  if (period === "day") return day;
+  if (period === "month") return `${day.slice(0, 7)}-01`;
+  return undefined;
+};
+
+/**
+ * LibSQL-backed usage ledger. Rows are daily totals that each agent run adds to.
+ */
+export class UsageLedger {
+  private client: Client;
+  private usageTable: string;
+  private budgetTable: string;
+  private ready?: Promise<void>;
+  private unpricedModels = new Set<string>();
+
+  constructor(options: { client?: Client; tablePrefix?: string } = {}) {
+    this.client = options.client ?? databaseClient;
+    const prefix = options.tablePrefix ?? "voltagent";
+    this.usageTable = `${prefix}_usage_ledger`;
+    this.budgetTable = `${prefix}_usage_budgets`;
+  }
+
+  /**
+   * Create the ledger and budget tables on first use
+   */
+  private ensureTables(): Promise<void> {
+    if (!this.ready) {
+      this.ready = this.client.batch([
+        `CREATE TABLE IF NOT EXISTS ${this.usageTable} (
+          day TEXT NOT NULL,
+          user_id TEXT NOT NULL,
+          conversation_id TEXT NOT NULL,
+          agent_name TEXT NOT NULL,
+          model TEXT NOT NULL,
+          requests INTEGER NOT NULL DEFAULT 0,
+          prompt_tokens INTEGER NOT NULL DEFAULT 0,
+          completion_tokens INTEGER NOT NULL DEFAULT 0,
+          cached_tokens INTEGER NOT NULL DEFAULT 0,
+          cost_usd REAL NOT NULL DEFAULT 0,
+          PRIMARY KEY (day, user_id, conversation_id, agent_name, model)
+        )`,
+        `CREATE INDEX IF NOT EXISTS idx_${this.usageTable}_user ON ${this.usageTable}(user_id, day)`,
+        `CREATE TABLE IF NOT EXISTS ${this.budgetTable} (
+          user_id TEXT PRIMARY KEY,
+          limit_usd REAL NOT NULL,
+          period TEXT NOT NULL,
+          updated_at TEXT NOT NULL
+        )`,
+      ], "write").then(() => undefined).catch((error) => {
+        this.ready = undefined;
+        throw error;
+      });
+    }
+    return this.ready;
+  }
+
+  /**
+   * Add a run to the daily totals
+   */
+  async record(usage: UsageRecord): Promise<void> {
+    await this.ensureTables();
+    await this.client.execute({
+      sql: `INSERT INTO ${this.usageTable}
+              (day, user_id, conversation_id, agent_name, model, requests, prompt_tokens, completion_tokens, cached_tokens, cost_usd)
+            VALUES (?, ?, ?, ?, ?, 1, ?, ?, ?, ?)
+            ON CONFLICT (day, user_id, conversation_id, agent_name, model) DO UPDATE SET
+              requests = requests + 1,
+              prompt_tokens = prompt_tokens + excluded.prompt_tokens,
+              completion_tokens = completion_tokens + excluded.completion_tokens,
+              cached_tokens = cached_tokens + excluded.cached_tokens,
+              cost_usd = cost_usd + excluded.cost_usd`,
+      args: [
+        (usage.timestamp ?? new Date().toISOString()).slice(0, 10),
+        usage.userId,
+        usage.conversationId,
+        usage.agentName,
+        usage.model,
+        usage.promptTokens,
+        usage.completionTokens,
+        usage.cachedTokens ?? 0,
+        usage.costUsd,
+      ],
+    });
+  }
+
+  /**
+   * Record the token usage of a finished agent run. Failures are logged and never break the run.
+   */
+  recordRun({ agent, output, context }: OnEndHookArgs): UsageRecord | undefined {
+    if (!output || !("usage" in output) || !output.usage) {
+      return undefined;
+    }
+    const model = agent.getModelName();
+    // The provider response is the generateText result or the streamText finish event
+    const providerResponse = "providerResponse" in output
+      ? output.providerResponse as Parameters<typeof getCachedTokenCount>[0]
+      : undefined;
+    const usage: TokenUsage = {
+      promptTokens: output.usage.promptTokens || 0,
+      completionTokens: output.usage.completionTokens || 0,
+      cachedTokens: getCachedTokenCount(providerResponse),
+    };
+    if (!(model.replace(/^models\//, "") in GEMINI_PRICING) && !this.unpricedModels.has(model)) {
+      this.unpricedModels.add(model);
+      console.warn(`⚠️  No price for model ${model}; its usage is recorded at zero cost`);
+    }
+
+    const record: UsageRecord = {
+      ...usage,
+      userId: context.historyEntry?.userId || "anonymous",
+      conversationId: context.historyEntry?.conversationId || "",
+      agentName: agent.name,
+      model,
+      costUsd: estimateCost(model, usage),
+    };
+    this.record(record).catch((error) => console.error("❌ Failed to record token usage:", error));
+    return record;
+  }
+
+  /**
+   * Totals matching the filters, optionally grouped (largest spend first)
+   */
+  async query(filter: UsageQuery = {}): Promise<UsageTotals[]> {
+    await this.ensureTables();
+    const conditions: string[] = [];
+    const args: string[] = [];
+    const add = (condition: string, value: string | undefined) => {
+      if (value) {
+        conditions.push(condition);
+        args.push(value);
+      }
+    };
+    add("user_id = ?", filter.userId);
+    add("conversation_id = ?", filter.conversationId);
+    add("agent_name = ?", filter.agentName);
+    add("day >= ?", filter.from);
+    add("day <= ?", filter.to);
+    const groupColumn = filter.groupBy ? GROUP_COLUMNS[filter.groupBy] : undefined;
+
+    const result = await this.client.execute({
+      sql: `SELECT ${groupColumn ? `${groupColumn} AS key,` : ""}
+              COALESCE(SUM(requests), 0) AS requests,
+              COALESCE(SUM(prompt_tokens), 0) AS prompt_tokens,
+              COALESCE(SUM(completion_tokens), 0) AS completion_tokens,
+              COALESCE(SUM(cached_tokens), 0) AS cached_tokens,
+              COALESCE(SUM(cost_usd), 0) AS cost_usd
+            FROM ${this.usageTable}
+            ${conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : ""}
+            ${groupColumn ? `GROUP BY ${groupColumn} ORDER BY cost_usd DESC, ${groupColumn}` : ""}`,
+      args,
+    });
+    return result.rows.map((row) => ({
+      key: groupColumn ? String(row.key) : undefined,
+      requests: Number(row.requests),
+      promptTokens: Number(row.prompt_tokens),
+      completionTokens: Number(row.completion_tokens),
+      cachedTokens: Number(row.cached_tokens),
+      totalTokens: Number(row.prompt_tokens) + Number(row.completion_tokens),
+      costUsd: Number(row.cost_usd),
+    }));
+  }
+
+  async getBudget(userId: string): Promise<UsageBudget | undefined> {
+    await this.ensureTables();
+    const result = await this.client.execute({
+      sql: `SELECT * FROM ${this.budgetTable} WHERE user_id = ?`,
+      args: [userId],
+    });
+    const row = result.rows[0];
+    return row
+      ? { userId, limitUsd: Number(row.limit_usd), period: String(row.period) as BudgetPeriod, updatedAt: String(row.updated_at) }
+      : undefined;
+  }
+
+  /**
+   * Set or replace a user's budget
+   */
+  async setBudget(userId: string, limitUsd: number, period: BudgetPeriod = "month"): Promise<UsageBudget> {
+    if (!Number.isFinite(limitUsd) || limitUsd < 0) {
+      throw new Error("Budget limit must be a non-negative number");
+    }
+    await this.ensureTables();
+    const budget: UsageBudget = { userId, limitUsd, period, updatedAt: new Date().toISOString() };
+    await this.client.execute({
+      sql: `INSERT INTO ${this.budgetTable} (user_id, limit_usd, period, updated_at) VALUES (?, ?, ?, ?)
+            ON CONFLICT (user_id) DO UPDATE SET limit_usd = excluded.limit_usd, period = excluded.period, updated_at = excluded.updated_at`,
+      args: [userId, limitUsd, period, budget.updatedAt],
+    });
+    return budget;
+  }
+
+  async removeBudget(userId: string): Promise<boolean> {
+    await this.ensureTables();
+    const result = await this.client.execute({
+      sql: `DELETE FROM ${this.budgetTable} WHERE user_id = ?`,
+      args: [userId],
+    });
+    return result.rowsAffected > 0;
+  }
+
+  /**
+   * Spend of a user in the current budget period
+   */
+  async getBudgetStatus(userId: string): Promise<BudgetStatus> {
+    const budget = await this.getBudget(userId);
+    const [totals] = await this.query({ userId, from: budget ? periodStart(budget.period) : undefined });
+    const spentUsd = totals?.costUsd ?? 0;
+    return {
+      budget,
+      spentUsd,
+      remainingUsd: budget ? Math.max(budget.limitUsd - spentUsd, 0) : undefined,
+      exceeded: budget ? spentUsd >= budget.limitUsd : false,
+    };
+  }
+
+  /**
+   * Throw when the user's budget is spent. Ledger errors are logged and let the request through.
+   */
+  async enforceBudget(userId: string): Promise<void> {
+    let status: BudgetStatus;
+    try {
+      status = await this.getBudgetStatus(userId);
+    } catch (error) {
+      // An unreachable ledger should not take the agents down with it
+      console.error("❌ Failed to check usage budget:", error);
+      return;
+    }
+    if (status.exceeded && status.budget) {
+      throw new Error(
+        `Usage budget exceeded for ${userId}: $${status.spentUsd.toFixed(4)} of $${status.budget.limitUsd.toFixed(2)} (${status.budget.period})`,
+      );
+    }
+  }
+}
+
+/**
+ * Global usage ledger instance
+ */
+export const usageLedger = new UsageLedger();
@@ -1,4 +1,6 @@
 export * from "./calculator";
+export * from "./mcpResourceTools";
+export * from "./toolDiscoveryTools";
 
 // Future tools can be exported here
 // export * from "./weatherTool";
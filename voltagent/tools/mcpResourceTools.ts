@@ -0,0 +1,75 @@
+import { createTool } from "@voltagent/core";
+import { z } from "zod";
+import { mcpToolsService } from "../services/mcp";
+import { appendReference } from "../services/contextKeys";
+
+/** Longest resource text returned to the model */
+const MAX_RESOURCE_TEXT = 20_000;
+
+/**
+ * MCP Resource Listing Tool
+ * Lists resources published by MCP servers, optionally filtered by a search query.
+ */
+export const listMcpResourcesTool = createTool({
+  name: "list_mcp_resources",
+  description: "List resources (documents, files, data) published by connected MCP servers.",
+  parameters: z.object({
+    serverKey: z.string().optional().describe("Only list resources of this MCP server"),
+    query: z.string().optional().describe("Only list resources whose uri, name or description match these words"),
+  }),
+  execute: async ({ serverKey, query }) => {
+    const resources = query
+      ? mcpToolsService.searchResources(query, 20).filter((resource) => !serverKey || resource.serverKey === serverKey)
+      : mcpToolsService.getResources(serverKey);
+    return { resources };
+  },
+});
+
+/**
+ * MCP Resource Reading Tool
+ * Reads a resource and records it as a reference in the operation context.
+ */
+export const readMcpResourceTool = createTool({
+  name: "read_mcp_resource",
+  description: "Read the content of an MCP resource so it can be used as context.",
+  parameters: z.object({
+    serverKey: z.string().describe("MCP server that published the resource (see list_mcp_resources)"),
+    uri: z.string().describe("URI of the resource"),
+  }),
+  execute: async ({ serverKey, uri }, options) => {
+    const contents = await mcpToolsService.readResource(serverKey, uri);
+    const userContext = options?.operationContext?.userContext;
+    if (userContext) {
+      appendReference(userContext, "mcp_resource", { serverKey, uri, mimeType: contents[0]?.mimeType });
+    }
+    return {
+      contents: contents.map((content) => ({
+        uri: content.uri,
+        mimeType: content.mimeType,
+        text: content.text?.slice(0, MAX_RESOURCE_TEXT),
+        truncated: (content.text?.length ?? 0) > MAX_RESOURCE_TEXT,
+        binary: content.blob !== undefined,
+      })),
+    };
+  },
+});
+
+/**
+ * MCP Prompt Tool
+ * Renders a prompt template published by an MCP server.
+ */
+export const getMcpPromptTool = createTool({
+  name: "get_mcp_prompt",
+  description: "Render a prompt template published by an MCP server. Call without a name to list the available prompts.",
+  parameters: z.object({
+    serverKey: z.string().optional().describe("MCP server that published the prompt"),
+    name: z.string().optional().describe("Prompt name"),
+    arguments: z.record(z.string()).optional().describe("Prompt arguments"),
+  }),
+  execute: async ({ serverKey, name, arguments: args }) => {
+    if (!serverKey || !name) {
+      return { prompts: mcpToolsService.getPrompts(serverKey) };
+    }
+    return mcpToolsService.getPrompt(serverKey, name, args);
+  },
+});
@@ -0,0 +1,43 @@
+import { createTool } from "@voltagent/core";
+import { z } from "zod";
+import { toolDiscoveryService, USE_DISCOVERED_TOOL } from "../services/toolDiscovery";
+
+/**
+ * Tool Discovery Tools
+ * Meta-tools that let an agent find MCP tools outside its bound servers and use
+ * them for the current run. What an agent may acquire is set by its discovery policy.
+ */
+export function createToolDiscoveryTools(agentName: string) {
+  const discoverTools = createTool({
+    name: "discover_tools",
+    description:
+      "Search the catalog of MCP tools that are not bound to you by what they do. Returns tool names, descriptions and parameter schemas.",
+    parameters: z.object({
+      query: z.string().describe("What the tool should do, e.g. 'query postgres table' or 'take browser screenshot'"),
+      limit: z.number().int().min(1).max(10).optional().describe("Maximum number of tools to return (default: 5)"),
+    }),
+    execute: async ({ query, limit }) => {
+      const tools = toolDiscoveryService.search(agentName, query, limit);
+      const policy = toolDiscoveryService.getPolicy(agentName);
+      return {
+        tools,
+        allowedCategories: policy?.categories ?? [],
+        maxToolsPerRun: policy?.maxToolsPerRun ?? 0,
+      };
+    },
+  });
+
+  const useDiscoveredTool = createTool({
+    name: USE_DISCOVERED_TOOL,
+    description:
+      "Call a tool found with discover_tools. The tool is acquired for the rest of this run on first use.",
+    parameters: z.object({
+      toolName: z.string().describe("Full tool name as returned by discover_tools"),
+      arguments: z.record(z.unknown()).optional().describe("Arguments matching the tool's parameter schema"),
+    }),
+    execute: async ({ toolName, arguments: args }, options) =>
+      toolDiscoveryService.execute(agentName, toolName, args, options),
+  });
+
+  return [discoverTools, useDiscoveredTool];
+}